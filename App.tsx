@@ -1,182 +1,997 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Scene, AppState, SUPPORTED_LANGUAGES, DubbingPerformance } from './types';
-import { 
-  generateScene, 
-  getPerformanceFeedback, 
-  generateReferenceAudio, 
-  generateSceneImage, 
-  generateSceneVideo,
-  transcribeAudio,
-  generateLipSyncVideo
-} from './services/geminiService';
+import { Scene, AppState, SUPPORTED_LANGUAGES, DubbingPerformance, DialogueLine, ProjectSummary, PrompterTiming, TimingSource, TakeEdit, LineMix, SyncAnalysis, PitchComparison } from './types';
+import {
+  startLipSyncVideo,
+  videoSourceUrl,
+  rewriteLine,
+  getProvider
+} from './services/aiService';
+import { createId } from './services/id';
+import {
+  getLineTakes,
+  nextTakeNumber,
+  addTake,
+  updateTake,
+  deleteTake,
+  toggleCircledTake,
+  getPreferredTake
+} from './services/takeManager';
+import {
+  saveProject,
+  loadProject,
+  listProjects,
+  renameProject,
+  duplicateProject,
+  deleteProject
+} from './services/projectStore';
+import { exportProjectBundle, importProjectBundle, bundleFileName, BUNDLE_EXTENSION } from './services/projectBundle';
+import { buildSceneTiming, estimateDuration } from './services/timing';
+import { toSrt, toWebVtt, toCueSheetCsv } from './services/subtitles';
+import { downloadBlob, safeFileName } from './services/download';
+import { ensureCasting, getVoiceFor, getCharacters, AUDITION_LINE } from './services/casting';
+import { play, playToEnd, stop as stopPlayback, decodeBlob } from './services/playbackEngine';
+import { getReferenceClip, primeReference } from './services/referenceCache';
+import { validRoles } from './services/tableRead';
+import { describeError } from './services/errors';
+import { audioBufferToWavBlob } from './services/audioEdit';
+import { createStudioMachine, isBusy } from './services/studioMachine';
+import { createStudioFlows, AnalysedTake } from './services/studioFlows';
+import { RenderJob, enqueueJob, cancelJob, dismissJob, subscribe as subscribeJobs, onJobFinished, resumeJobs, isJobActive } from './services/renderJobs';
+import { resolveLineWindow, playBeep, COUNTDOWN_OPTIONS, AUTO_STOP_TAIL_SECONDS } from './services/prompter';
+import {
+  InputSettings,
+  loadInputSettings,
+  saveInputSettings,
+  listInputDevices,
+  openInput,
+  isDeviceMissing,
+  pickRecorderMimeType,
+  createRecorder,
+  recordedMimeType
+} from './services/audioInput';
+import { collectMixClips, renderMixdown, renderStems, encodeWav, encodeStemsZip, setLineMix, mixdownLabel, mixdownPlaybackId, MixClip } from './services/mixdown';
+import { exportDubbedVideo, fetchVideo, videoFileExtension, VideoPicture } from './services/videoExport';
+import { WavBitDepth } from './services/wav';
+import { resolveSyncTarget, analyseSync } from './services/syncAnalysis';
+import { analysePitch } from './services/pitchAnalysis';
+import { SceneOptions, DEFAULT_SCENE_OPTIONS, validateSceneOptions } from './services/sceneOptions';
+import {
+  ScriptHistory,
+  EMPTY_HISTORY,
+  LinePatch,
+  lineScript,
+  isTakeStale,
+  updateLine,
+  insertLineAfter,
+  removeLine,
+  moveLine,
+  changedLineIds,
+  stampTakeScripts,
+  recordEdit,
+  undoEdit,
+  redoEdit
+} from './services/scriptEdit';
 import AudioVisualizer from './components/AudioVisualizer';
+import TakeList from './components/TakeList';
+import ProjectLibrary from './components/ProjectLibrary';
+import ScriptImport from './components/ScriptImport';
+import SceneOptionsPanel from './components/SceneOptionsPanel';
+import ScriptLine from './components/ScriptLine';
+import ScriptLineEditor from './components/ScriptLineEditor';
+import CastingPanel from './components/CastingPanel';
+import PlaybackBar from './components/PlaybackBar';
+import ScoreCard from './components/ScoreCard';
+import RenderJobList from './components/RenderJobList';
+import TakeEditor from './components/TakeEditor';
+import InputSettingsPanel from './components/InputSettingsPanel';
+import MixdownPanel from './components/MixdownPanel';
+import SyncOverlay from './components/SyncOverlay';
+import PitchContourView from './components/PitchContourView';
+import SceneMonitor from './components/SceneMonitor';
+import ErrorNotice, { Notice } from './components/ErrorNotice';
+import Teleprompter, { PrompterState } from './components/Teleprompter';
+
+interface ProjectMeta {
+  id: string;
+  name: string;
+  createdAt: number;
+}
 
 const App: React.FC = () => {
-  const [appState, setAppState] = useState<AppState>('IDLE');
+  // Workflow state lives in the machine; appState mirrors it for rendering.
+  const [studio] = useState(createStudioMachine);
+  const [appState, setAppState] = useState<AppState>(studio.getSnapshot().state);
+  const [productionMode, setProductionMode] = useState<'generate' | 'import'>('generate');
   const [scenePrompt, setScenePrompt] = useState('');
+  const [sceneOptions, setSceneOptions] = useState<SceneOptions>(DEFAULT_SCENE_OPTIONS);
   const [selectedLang, setSelectedLang] = useState('en');
   const [includeVideo, setIncludeVideo] = useState(false); // Default to false for accessibility
   const [currentScene, setCurrentScene] = useState<Scene | null>(null);
-  const [feedback, setFeedback] = useState<string | null>(null);
-  const [performance, setPerformance] = useState<DubbingPerformance | null>(null);
+  const [takes, setTakes] = useState<DubbingPerformance[]>([]);
+  const [activeLineId, setActiveLineId] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
   const [videoStatus, setVideoStatus] = useState<string>('');
   const [showSynced, setShowSynced] = useState(false);
+  const [translationTarget, setTranslationTarget] = useState('');
+  const [auditioning, setAuditioning] = useState<string | null>(null);
+  const [referenceAudio, setReferenceAudio] = useState<Record<string, Uint8Array>>({});
+  const [project, setProject] = useState<ProjectMeta | null>(null);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [prompterEnabled, setPrompterEnabled] = useState(true);
+  const [countdownSeconds, setCountdownSeconds] = useState(3);
+  const [autoStop, setAutoStop] = useState(true);
+  const [prompter, setPrompter] = useState<PrompterState | null>(null);
+  const [userRoles, setUserRoles] = useState<string[]>([]);
+  const [tableReading, setTableReading] = useState(false);
+  const [renderJobs, setRenderJobs] = useState<RenderJob[]>([]);
+  const [notice, setNotice] = useState<Notice | null>(null);
+  const [editingTakeId, setEditingTakeId] = useState<string | null>(null);
+  const [editingLineId, setEditingLineId] = useState<string | null>(null);
+  const [scriptHistory, setScriptHistory] = useState<ScriptHistory>(EMPTY_HISTORY);
+  // Mic opened outside a take so the actor can set levels before rolling.
+  const [monitorStream, setMonitorStream] = useState<MediaStream | null>(null);
+  const [inputSettings, setInputSettings] = useState<InputSettings>(loadInputSettings);
+  const [inputDevices, setInputDevices] = useState<MediaDeviceInfo[]>([]);
+  const [recorderFormat] = useState(pickRecorderMimeType);
+  const [mixReferences, setMixReferences] = useState(true);
+  const [mixBitDepth, setMixBitDepth] = useState<WavBitDepth>(16);
+  const [mixing, setMixing] = useState(false);
+  // Fraction of the dub captured while a video export runs.
+  const [videoExportProgress, setVideoExportProgress] = useState<number | null>(null);
 
   // Recording refs
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   const streamRef = useRef<MediaStream | null>(null);
   const startTimeRef = useRef<number>(0);
+  const videoExportRef = useRef<AbortController | null>(null);
+  // performance.now() when the recorder actually started capturing.
+  const recorderStartRef = useRef<number>(0);
+  const prompterCueRef = useRef<{ cueIn: number; windowDuration: number; windowSource: TimingSource; countdown: number; autoStopped: boolean } | null>(null);
+  const autoStopTimerRef = useRef<number | undefined>(undefined);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  // Read by render job callbacks, which outlive the render they were registered in.
+  const openSceneIdRef = useRef<string | null>(null);
+  // Last state written to the library, so opening a project doesn't immediately re-save it.
+  const lastSavedRef = useRef<{ project: ProjectMeta; scene: Scene; takes: DubbingPerformance[]; referenceAudio: Record<string, Uint8Array> } | null>(null);
 
-  const checkAndPromptForKey = async () => {
-    const has = await (window as any).aistudio.hasSelectedApiKey();
-    if (!has) {
-      await (window as any).aistudio.openSelectKey();
-      return true; // Assume success after opening dialog
-    }
-    return true;
+  // Shows a failure as a dismissible notice with advice for its kind of error.
+  const reportError = (context: string, err: unknown) => {
+    console.error(context, err);
+    setNotice({ context, ...describeError(err) });
   };
 
-  const handleCreateScene = async () => {
-    if (!scenePrompt.trim()) return;
+  const reportSceneWarnings = (warnings: string[]) => setNotice({
+    context: "Scene generated",
+    title: "Some lines may not be the length you asked for",
+    action: "The scene is ready to use. Rewrite any line that's awkward to dub.",
+    detail: warnings.join(' ')
+  });
 
-    // Check key only if video is requested
-    if (includeVideo) {
-      await checkAndPromptForKey();
-    }
+  const reportMicrophoneError = (err: unknown) => {
+    console.error("Microphone access denied", err);
+    setNotice({
+      context: "Recording unavailable",
+      title: "Microphone access is required for dubbing",
+      action: "Allow microphone access for this site in your browser, then press record again."
+    });
+  };
 
-    setAppState('CREATING');
-    setFeedback(null);
-    setPerformance(null);
-    setShowSynced(false);
-    
+  const reportMissingInput = () => setNotice({
+    context: "Recording unavailable",
+    title: "The selected microphone isn't connected",
+    action: "Reconnect it, or choose another input under Input, then press record again."
+  });
+
+  const reportInputLost = () => setNotice({
+    context: "Microphone disconnected",
+    title: "The input dropped out during the take",
+    action: "Anything captured before it dropped was kept as a take. Reconnect the microphone or choose another input, then record again."
+  });
+
+  const refreshInputDevices = () => {
+    listInputDevices().then(setInputDevices, err => console.error("Could not list audio inputs", err));
+  };
+
+  const refreshProjects = async () => {
     try {
-      setVideoStatus("Writing cinematic script...");
-      const scene = await generateScene(scenePrompt, selectedLang);
-      setCurrentScene(scene);
-
-      setVideoStatus("Designing concept frames...");
-      const imageUrl = await generateSceneImage(scene.title, scene.context);
-      if (imageUrl) {
-        setCurrentScene(prev => prev ? { ...prev, imageUrl } : null);
-      }
+      setProjects(await listProjects());
+    } catch (err) {
+      console.error("Could not read project library", err);
+    }
+  };
 
-      if (includeVideo) {
-        setVideoStatus("Rendering cinematic video...");
-        const videoUrl = await generateSceneVideo(scenePrompt, imageUrl || undefined);
-        if (videoUrl) {
-          setCurrentScene(prev => prev ? { ...prev, videoUrl } : null);
-        }
-      }
+  useEffect(() => {
+    refreshProjects();
+  }, []);
 
-      setAppState('READY');
-      setVideoStatus('');
-    } catch (err: any) {
-      console.error(err);
-      setAppState('IDLE');
-      if (err.message?.includes("Requested entity was not found")) {
-        alert("Video generation requires a paid API key. Please try again with video disabled or select a valid key.");
+  useEffect(() => studio.subscribe(snapshot => setAppState(snapshot.state)), [studio]);
+
+  useEffect(() => {
+    refreshInputDevices();
+    navigator.mediaDevices?.addEventListener('devicechange', refreshInputDevices);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refreshInputDevices);
+  }, []);
+
+  // Releases the monitor mic whenever it's replaced, turned off or the app unmounts.
+  useEffect(() => () => monitorStream?.getTracks().forEach(track => track.stop()), [monitorStream]);
+
+  useEffect(() => {
+    openSceneIdRef.current = currentScene?.id ?? null;
+    // Undo history belongs to one scene.
+    setScriptHistory(EMPTY_HISTORY);
+    setEditingLineId(null);
+  }, [currentScene?.id]);
+
+  useEffect(() => {
+    const unsubscribe = subscribeJobs(setRenderJobs);
+    const unsubscribeFinished = onJobFinished(applyRenderedVideo);
+    resumeJobs();
+    return () => {
+      unsubscribe();
+      unsubscribeFinished();
+    };
+  }, []);
+
+  // Autosave the open project whenever the studio settles back to READY.
+  useEffect(() => {
+    if (!project || !currentScene || appState !== 'READY') return;
+    const last = lastSavedRef.current;
+    if (last && last.project === project && last.scene === currentScene && last.takes === takes && last.referenceAudio === referenceAudio) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        await saveProject({
+          id: project.id,
+          name: project.name,
+          createdAt: project.createdAt,
+          updatedAt: Date.now(),
+          scene: currentScene,
+          takes,
+          referenceAudio
+        });
+        lastSavedRef.current = { project, scene: currentScene, takes, referenceAudio };
+        refreshProjects();
+      } catch (err) {
+        reportError("Autosave failed", err);
       }
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [project, currentScene, takes, referenceAudio, appState]);
+
+  const resetSession = () => {
+    setTakes([]);
+    setCompareIds([]);
+    setReferenceAudio({});
+    setShowSynced(false);
+  };
+
+  // Returns the new project's id.
+  const openNewScene = (scene: Scene, name: string = scene.title): string => {
+    const id = createId();
+    studio.send({ type: 'SCENE_OPENED' });
+    setCurrentScene(ensureCasting(scene));
+    setProject({ id, name, createdAt: Date.now() });
+    setActiveLineId(scene.dialogue[0]?.id ?? null);
+    return id;
+  };
+
+  // Finished renders land in the open scene, or straight in the library if the user has moved on.
+  const applyRenderedVideo = async (job: RenderJob) => {
+    if (job.status !== 'succeeded' || !job.videoUrl) return;
+    const videoUrl = job.videoUrl;
+    const withVideo = (scene: Scene): Scene => job.kind === 'lipSync' ? { ...scene, syncedVideoUrl: videoUrl } : { ...scene, videoUrl };
+
+    if (openSceneIdRef.current === job.sceneId) {
+      setCurrentScene(prev => prev?.id === job.sceneId ? withVideo(prev) : prev);
+      if (job.kind === 'lipSync') setShowSynced(true);
+      return;
+    }
+    try {
+      const stored = await loadProject(job.projectId);
+      if (!stored || stored.scene.id !== job.sceneId) return;
+      await saveProject({ ...stored, scene: withVideo(stored.scene), updatedAt: Date.now() });
+      refreshProjects();
+    } catch (err) {
+      console.error("Could not store rendered video", err);
     }
   };
 
-  const startRecording = async () => {
+  // Local timing analysis; a take it can't measure just goes without.
+  const measureSync = async (scene: Scene, line: DialogueLine, take: AnalysedTake): Promise<SyncAnalysis | undefined> => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      streamRef.current = stream;
-      const mediaRecorder = new MediaRecorder(stream);
+      const target = await resolveSyncTarget(scene, line, () => loadReferenceClip(scene, line));
+      return analyseSync(await decodeBlob(take.audioBlob), target, take.prompter) ?? undefined;
+    } catch (err) {
+      console.error("Sync analysis failed", err);
+      return undefined;
+    }
+  };
+
+  // Intonation against the reference read; skipped when there's no reference to compare with.
+  const measurePitch = async (scene: Scene, line: DialogueLine, take: AnalysedTake): Promise<PitchComparison | undefined> => {
+    try {
+      const clip = await loadReferenceClip(scene, line);
+      if (!clip) return undefined;
+      return analysePitch(clip.buffer, await decodeBlob(take.audioBlob)) ?? undefined;
+    } catch (err) {
+      console.error("Pitch analysis failed", err);
+      return undefined;
+    }
+  };
+
+  // Rebuilt each render so the flows see current state, as the handlers below do.
+  const flows = createStudioFlows(studio, getProvider(), {
+    setStatus: setVideoStatus,
+    reportError,
+    reportSceneWarnings,
+    resetSession,
+    openScene: openNewScene,
+    setSceneImage: imageUrl => setCurrentScene(prev => prev ? { ...prev, imageUrl } : null),
+    updateTake: (takeId, patch) => setTakes(prev => updateTake(prev, takeId, patch)),
+    measureSync,
+    measurePitch,
+    getKeyPicker: () => (window as any).aistudio
+  });
+
+  const handleCreateScene = () => {
+    flows.createScene(scenePrompt, selectedLang, sceneOptions, includeVideo);
+  };
+
+  const handleImportScript = (scene: Scene, { generateImage }: { generateImage: boolean }) => {
+    flows.importScene(scene, { generateImage, includeVideo });
+  };
+
+  const handleTranslate = async () => {
+    if (!currentScene || !translationTarget) return;
+    if (await flows.translateScene(currentScene, translationTarget, project?.name || currentScene.title)) setTranslationTarget('');
+  };
+
+  // Wires a recorder onto an open mic stream and resolves with the take once it's stored.
+  const captureTake = (stream: MediaStream, line: DialogueLine): Promise<AnalysedTake> =>
+    new Promise(resolve => {
+      const mediaRecorder = createRecorder(stream);
       mediaRecorderRef.current = mediaRecorder;
       audioChunksRef.current = [];
-      
+
       mediaRecorder.ondataavailable = (e) => {
         if (e.data.size > 0) audioChunksRef.current.push(e.data);
       };
 
+      mediaRecorder.onstart = () => {
+        startTimeRef.current = Date.now();
+        recorderStartRef.current = performance.now();
+      };
+
       mediaRecorder.onstop = async () => {
-        const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
-        const duration = (Date.now() - startTimeRef.current) / 1000;
-        
-        setAppState('ANALYZING');
-        setVideoStatus("Transcribing performance...");
-        
-        const transcription = await transcribeAudio(audioBlob);
-        setPerformance({ audioBlob, duration, timestamp: Date.now(), transcription });
-        
-        if (currentScene) {
-          const aiFeedback = await getPerformanceFeedback(currentScene, duration, transcription);
-          setFeedback(aiFeedback);
-        }
-        setAppState('READY');
-        setVideoStatus('');
+        const audioBlob = new Blob(audioChunksRef.current, { type: recordedMimeType(mediaRecorder, audioChunksRef.current) });
+        // Measure the audio itself; wall-clock time includes recorder start-up latency.
+        const wallClock = (Date.now() - startTimeRef.current) / 1000;
+        const duration = await decodeBlob(audioBlob).then(decoded => decoded.duration, () => wallClock);
+        const takeId = createId();
+        const cue = prompterCueRef.current;
+        prompterCueRef.current = null;
+        const prompterTiming: PrompterTiming | undefined = cue ? {
+          windowStart: (cue.cueIn - recorderStartRef.current) / 1000,
+          windowDuration: cue.windowDuration,
+          windowSource: cue.windowSource,
+          countdown: cue.countdown,
+          autoStopped: cue.autoStopped
+        } : undefined;
+
+        const take: AnalysedTake = { id: takeId, audioBlob, duration, prompter: prompterTiming };
+
+        setTakes(prev => addTake(prev, {
+          ...take,
+          lineId: line.id,
+          takeNumber: nextTakeNumber(prev, line.id),
+          timestamp: Date.now(),
+          script: lineScript(line)
+        }));
+        resolve(take);
       };
 
-      startTimeRef.current = Date.now();
       mediaRecorder.start();
-      setAppState('RECORDING');
+    });
+
+  const reportInputError = (err: unknown) => {
+    if (isDeviceMissing(err) && inputSettings.deviceId) reportMissingInput();
+    else reportMicrophoneError(err);
+  };
+
+  // 'ended' fires when the device goes away, never for tracks we stop ourselves.
+  const onInputLost = (stream: MediaStream, handler: () => void) => {
+    stream.getAudioTracks().forEach(track => track.addEventListener('ended', handler, { once: true }));
+  };
+
+  // Opens the chosen mic for a recording run; `onLost` runs if the device disconnects mid-run.
+  const openMicrophone = async (signal: AbortSignal, onLost: () => void): Promise<MediaStream | null> => {
+    setMonitorStream(null);
+    let stream: MediaStream;
+    try {
+      stream = await openInput(inputSettings);
     } catch (err) {
-      console.error("Microphone access denied", err);
-      alert("Microphone access is required for dubbing.");
+      reportInputError(err);
+      return null;
     }
+    // Stopped while the permission prompt was open.
+    if (signal.aborted) {
+      stream.getTracks().forEach(track => track.stop());
+      return null;
+    }
+    // Labels only become readable once access has been granted.
+    refreshInputDevices();
+    mediaRecorderRef.current = null;
+    streamRef.current = stream;
+    onInputLost(stream, () => {
+      if (signal.aborted) return;
+      reportInputLost();
+      onLost();
+    });
+    return stream;
   };
 
-  const stopRecording = () => {
-    if (mediaRecorderRef.current && appState === 'RECORDING') {
-      mediaRecorderRef.current.stop();
-      if (streamRef.current) {
-        streamRef.current.getTracks().forEach(track => track.stop());
+  const openMonitor = async (settings: InputSettings) => {
+    try {
+      const stream = await openInput(settings);
+      onInputLost(stream, () => setMonitorStream(current => current === stream ? null : current));
+      setMonitorStream(stream);
+      refreshInputDevices();
+    } catch (err) {
+      setMonitorStream(null);
+      reportInputError(err);
+    }
+  };
+
+  const toggleMonitor = () => {
+    if (monitorStream) setMonitorStream(null);
+    else openMonitor(inputSettings);
+  };
+
+  // Applies straight away to the input monitor; recordings pick it up on the next take.
+  const handleInputSettingsChange = (settings: InputSettings) => {
+    setInputSettings(settings);
+    saveInputSettings(settings);
+    if (monitorStream) openMonitor(settings);
+  };
+
+  // Stopping during the count-in cancels the run, which abandons this sequence.
+  const countInTake = async (stream: MediaStream, scene: Scene, line: DialogueLine, signal: AbortSignal): Promise<AnalysedTake | null> => {
+    if (!prompterEnabled) return captureTake(stream, line);
+
+    const countdown = countdownSeconds;
+    setPrompter({ lineId: line.id, phase: 'countdown', count: countdown, windowDuration: 0 });
+    const lineWindow = await resolveLineWindow(scene, line, referenceAudio);
+
+    for (let count = countdown; count > 0; count--) {
+      if (signal.aborted) return null;
+      setPrompter(prev => prev && { ...prev, count, windowDuration: lineWindow.duration });
+      playBeep(660);
+      await new Promise(resolve => setTimeout(resolve, 1000));
+    }
+    if (signal.aborted) return null;
+
+    playBeep(1320, 0.25);
+    const cueIn = performance.now();
+    prompterCueRef.current = { cueIn, windowDuration: lineWindow.duration, windowSource: lineWindow.source, countdown, autoStopped: false };
+    const captured = captureTake(stream, line);
+    setPrompter({ lineId: line.id, phase: 'rolling', count: 0, windowDuration: lineWindow.duration, rollingSince: cueIn });
+
+    if (autoStop) {
+      autoStopTimerRef.current = window.setTimeout(
+        () => stopRecording(true),
+        (lineWindow.duration + AUTO_STOP_TAIL_SECONDS) * 1000
+      );
+    }
+    return captured;
+  };
+
+  // A cancelled run ends late, possibly after a newer run has taken over the mic and prompter.
+  const isCurrentRun = (stream: MediaStream | null) => !!stream && streamRef.current === stream;
+
+  const startRecording = () => {
+    const line = currentScene?.dialogue.find(l => l.id === activeLineId);
+    if (!currentScene || !line) return;
+    const scene = currentScene;
+    let runStream: MediaStream | null = null;
+    flows.recordTake(scene, line, {
+      openMicrophone: async signal => {
+        runStream = await openMicrophone(signal, () => stopRecording());
+        return runStream;
+      },
+      captureTake: (stream, line, signal) => countInTake(stream, scene, line, signal),
+      end: () => {
+        if (!isCurrentRun(runStream)) return;
+        window.clearTimeout(autoStopTimerRef.current);
+        setPrompter(null);
       }
+    });
+  };
+
+  // Reads refs and the machine rather than appState so the auto-stop timer never sees a stale render.
+  const stopRecording = (autoStopped: boolean = false) => {
+    window.clearTimeout(autoStopTimerRef.current);
+    const recorder = mediaRecorderRef.current;
+    if (recorder?.state === 'recording') {
+      if (prompterCueRef.current) prompterCueRef.current.autoStopped = autoStopped;
+      recorder.stop();
+    } else if (!recorder) {
+      // Stopped during the count-in: nothing was captured.
+      studio.cancel();
     }
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    setPrompter(null);
+  };
+
+  const startTableRead = () => {
+    if (!currentScene) return;
+    const scene = currentScene;
+    const roles = validRoles(scene, userRoles);
+    if (roles.length === 0) return;
+
+    let runStream: MediaStream | null = null;
+    flows.tableRead(scene, roles, {
+      openMicrophone: async signal => {
+        runStream = await openMicrophone(signal, () => stopTableRead());
+        if (runStream) setTableReading(true);
+        return runStream;
+      },
+      showLine: setActiveLineId,
+      playCastLine: async (line, signal) => {
+        const voice = getVoiceFor(scene, line.character);
+        const clip = await loadReferenceClip(scene, line).catch(err => {
+          console.error("Cast read unavailable", err);
+          return null;
+        });
+        if (signal.aborted) return;
+        const duration = clip?.buffer.duration ?? estimateDuration(line.text);
+        setPrompter({ lineId: line.id, phase: 'rolling', count: 0, windowDuration: duration, rollingSince: performance.now(), voicedBy: voice });
+        // Without a read the cast line is held silently for its estimated length.
+        if (clip) await playToEnd(clip.buffer, `${line.character} · ${voice}`);
+        else await new Promise(resolve => setTimeout(resolve, duration * 1000));
+      },
+      // Stopping the run mid-line still keeps what was captured; endTableRead stops the recorder.
+      captureTake: async (stream, line, signal) => {
+        const lineWindow = await resolveLineWindow(scene, line, referenceAudio);
+        if (signal.aborted) return null;
+        playBeep(1320, 0.25);
+        const cueIn = performance.now();
+        prompterCueRef.current = { cueIn, windowDuration: lineWindow.duration, windowSource: lineWindow.source, countdown: 0, autoStopped: false };
+        setPrompter({ lineId: line.id, phase: 'rolling', count: 0, windowDuration: lineWindow.duration, rollingSince: cueIn });
+        const captured = captureTake(stream, line);
+        await new Promise(resolve => setTimeout(resolve, (lineWindow.duration + AUTO_STOP_TAIL_SECONDS) * 1000));
+        if (!signal.aborted) {
+          if (prompterCueRef.current) prompterCueRef.current.autoStopped = true;
+          mediaRecorderRef.current?.stop();
+        }
+        return captured;
+      },
+      end: () => {
+        if (isCurrentRun(runStream)) endTableRead();
+      }
+    });
+  };
+
+  // Releases the mic and playback when a run ends. A take being recorded is kept.
+  const endTableRead = () => {
+    if (mediaRecorderRef.current?.state === 'recording') mediaRecorderRef.current.stop();
+    stopPlayback();
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    setPrompter(null);
+    setTableReading(false);
+  };
+
+  const stopTableRead = () => {
+    studio.cancel();
+    endTableRead();
+  };
+
+  const handleToggleRole = (character: string) => {
+    setUserRoles(prev => prev.includes(character) ? prev.filter(role => role !== character) : [...prev, character]);
   };
 
   const handleLipSync = async () => {
-    if (!performance?.transcription || !currentScene?.videoUrl) return;
-    
-    await checkAndPromptForKey();
-    
-    setAppState('SYNCING');
-    setVideoStatus("Harmonizing lip movements...");
+    if (!activeTake?.transcription || !currentScene?.videoUrl || !project) return;
     
+    await flows.ensureApiKey();
+
+    const { videoUrl } = currentScene;
+    const transcription = activeTake.transcription;
+    enqueueJob({
+      kind: 'lipSync',
+      projectId: project.id,
+      sceneId: currentScene.id,
+      label: `${currentScene.title} · lip-sync take ${activeTake.takeNumber}`,
+      start: () => startLipSyncVideo(videoUrl, transcription)
+    });
+  };
+
+  const playRecording = async (take: DubbingPerformance) => {
     try {
-      const syncedUrl = await generateLipSyncVideo(
-        currentScene.videoUrl, 
-        performance.transcription
-      );
-      if (syncedUrl) {
-        setCurrentScene(prev => prev ? { ...prev, syncedVideoUrl: syncedUrl } : null);
-        setShowSynced(true);
+      play(await decodeBlob(take.audioBlob), `Take ${take.takeNumber}`);
+    } catch (err) {
+      console.error("Could not decode take", err);
+    }
+  };
+
+  const handleDeleteTake = (takeId: string) => {
+    setTakes(prev => deleteTake(prev, takeId));
+    setCompareIds(prev => prev.filter(id => id !== takeId));
+    if (editingTakeId === takeId) setEditingTakeId(null);
+  };
+
+  // Edits are saved as a new take so the original recording stays available,
+  // and the new take is transcribed and scored on its own audio.
+  const handleSaveEdit = (source: DubbingPerformance, edit: TakeEdit, rendered: AudioBuffer) => {
+    const line = currentScene?.dialogue.find(l => l.id === source.lineId);
+    if (!currentScene || !line) return;
+    const take: AnalysedTake = {
+      id: createId(),
+      audioBlob: audioBufferToWavBlob(rendered),
+      duration: rendered.duration,
+      // The prompter window keeps its place in the audio once the head is trimmed off.
+      prompter: source.prompter && { ...source.prompter, windowStart: source.prompter.windowStart - edit.trimStart }
+    };
+    setTakes(prev => addTake(prev, {
+      ...take,
+      lineId: source.lineId,
+      takeNumber: nextTakeNumber(prev, source.lineId),
+      timestamp: Date.now(),
+      editedFrom: source.id,
+      edit,
+      script: source.script
+    }));
+    setEditingTakeId(null);
+    flows.analyseTake(currentScene, line, take);
+  };
+
+  // Keep at most two takes selected for side-by-side comparison.
+  const handleToggleCompare = (takeId: string) => {
+    setCompareIds(prev => prev.includes(takeId)
+      ? prev.filter(id => id !== takeId)
+      : [...prev, takeId].slice(-2));
+  };
+
+  const handleOpenProject = async (id: string) => {
+    if (isBusy(studio.getSnapshot().state)) return;
+    try {
+      const loaded = await loadProject(id);
+      // Something else may have started while the project was loading.
+      if (!loaded || isBusy(studio.getSnapshot().state)) return;
+      studio.send({ type: 'SCENE_OPENED' });
+      const meta = { id: loaded.id, name: loaded.name, createdAt: loaded.createdAt };
+      lastSavedRef.current = { project: meta, scene: loaded.scene, takes: loaded.takes, referenceAudio: loaded.referenceAudio };
+      setProject(meta);
+      setCurrentScene(ensureCasting(loaded.scene));
+      setTakes(loaded.takes);
+      setReferenceAudio(loaded.referenceAudio);
+      setActiveLineId(loaded.scene.dialogue[0]?.id ?? null);
+      setCompareIds([]);
+      setShowSynced(false);
+    } catch (err) {
+      reportError("Could not open project", err);
+    }
+  };
+
+  const handleRenameProject = async (id: string, name: string) => {
+    try {
+      await renameProject(id, name);
+      if (project?.id === id) {
+        const renamed = { ...project, name };
+        if (lastSavedRef.current) lastSavedRef.current = { ...lastSavedRef.current, project: renamed };
+        setProject(renamed);
       }
-      setAppState('READY');
-      setVideoStatus('');
+      refreshProjects();
     } catch (err) {
-      console.error(err);
-      setAppState('READY');
-      alert("Lip sync failed. Ensure you have a paid API key.");
+      reportError("Could not rename project", err);
     }
   };
 
-  const playRecording = () => {
-    if (performance) {
-      const url = URL.createObjectURL(performance.audioBlob);
-      const audio = new Audio(url);
-      audio.play();
+  const handleDuplicateProject = async (id: string) => {
+    try {
+      await duplicateProject(id);
+      refreshProjects();
+    } catch (err) {
+      reportError("Could not duplicate project", err);
     }
   };
 
-  const playReference = async (text: string) => {
-    const bytes = await generateReferenceAudio(text);
-    if (bytes) {
-      const ctx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-      const dataInt16 = new Int16Array(bytes.buffer);
-      const buffer = ctx.createBuffer(1, dataInt16.length, 24000);
-      const channelData = buffer.getChannelData(0);
-      for (let i = 0; i < dataInt16.length; i++) {
-        channelData[i] = dataInt16[i] / 32768.0;
+  const handleDeleteProject = async (id: string) => {
+    const isOpen = project?.id === id;
+    if (isOpen && !studio.can('SCENE_CLOSED')) return;
+    try {
+      await deleteProject(id);
+      if (isOpen && studio.send({ type: 'SCENE_CLOSED' })) {
+        lastSavedRef.current = null;
+        setProject(null);
+        setCurrentScene(null);
+        setTakes([]);
+        setReferenceAudio({});
+        setActiveLineId(null);
       }
-      const source = ctx.createBufferSource();
-      source.buffer = buffer;
-      source.connect(ctx.destination);
-      source.start();
+      refreshProjects();
+    } catch (err) {
+      reportError("Could not delete project", err);
+    }
+  };
+
+  const handleExportBundle = async () => {
+    if (!project || !currentScene) return;
+    try {
+      const snapshot = { ...project, updatedAt: Date.now(), scene: currentScene, takes, referenceAudio };
+      downloadBlob(await exportProjectBundle(snapshot), bundleFileName(snapshot));
+    } catch (err) {
+      reportError("Export failed", err);
+    }
+  };
+
+  const handleExportTiming = (format: 'srt' | 'vtt' | 'csv') => {
+    if (!currentScene) return;
+    const timing = buildSceneTiming(currentScene, takes, referenceAudio);
+    const baseName = safeFileName(project?.name || currentScene.title);
+    if (format === 'srt') {
+      downloadBlob(new Blob([toSrt(currentScene, timing)], { type: 'application/x-subrip' }), `${baseName}.srt`);
+    } else if (format === 'vtt') {
+      downloadBlob(new Blob([toWebVtt(currentScene, timing)], { type: 'text/vtt' }), `${baseName}.vtt`);
+    } else {
+      downloadBlob(new Blob([toCueSheetCsv(currentScene, timing, takes)], { type: 'text/csv' }), `${baseName}_cues.csv`);
+    }
+  };
+
+  const handleLineMix = (lineId: string, patch: Partial<LineMix>) => {
+    setCurrentScene(prev => prev ? setLineMix(prev, lineId, patch) : null);
+  };
+
+  // Reports and returns null when no line has audio yet.
+  const collectSceneClips = async (scene: Scene): Promise<MixClip[] | null> => {
+    const clips = await collectMixClips(scene, takes, referenceAudio, {
+      includeReferences: mixReferences,
+      loadReference: line => loadReferenceClip(scene, line)
+    });
+    if (clips.length > 0) return clips;
+    setNotice({
+      context: "Nothing to mix",
+      title: "No line has audio yet",
+      action: "Record a take, or include reference reads for undubbed lines, then try again."
+    });
+    return null;
+  };
+
+  // Renders locally; only reference reads that aren't saved yet touch the network.
+  const handleMixdown = async (output: 'preview' | 'mix' | 'stems') => {
+    if (!currentScene) return;
+    const scene = currentScene;
+    const baseName = safeFileName(project?.name || scene.title);
+    setMixing(true);
+    try {
+      const clips = await collectSceneClips(scene);
+      if (!clips) return;
+      if (output === 'stems') {
+        downloadBlob(encodeStemsZip(await renderStems(clips), baseName, mixBitDepth), `${baseName}_stems.zip`);
+        return;
+      }
+      const mix = await renderMixdown(clips);
+      if (output === 'preview') play(mix, mixdownLabel(scene), { id: mixdownPlaybackId(scene) });
+      else downloadBlob(encodeWav(mix, mixBitDepth), `${baseName}_mix.wav`);
+    } catch (err) {
+      reportError("Mixdown failed", err);
+    } finally {
+      setMixing(false);
+    }
+  };
+
+  // Exports whichever video is on screen, or the concept image as a still.
+  const handleExportVideo = async () => {
+    if (!currentScene) return;
+    const scene = currentScene;
+    const videoUrl = showSynced && scene.syncedVideoUrl ? scene.syncedVideoUrl : scene.videoUrl;
+    if (!videoUrl && !scene.imageUrl) {
+      setNotice({
+        context: "Nothing to export",
+        title: "This scene has no picture yet",
+        action: "Generate the scene's concept image or video first."
+      });
+      return;
+    }
+    const controller = new AbortController();
+    videoExportRef.current = controller;
+    setVideoExportProgress(0);
+    try {
+      const clips = await collectSceneClips(scene);
+      if (!clips) return;
+      const mix = await renderMixdown(clips);
+      const picture: VideoPicture = videoUrl
+        ? { kind: 'video', blob: await fetchVideo(videoSourceUrl(videoUrl)) }
+        : { kind: 'image', url: scene.imageUrl! };
+      const video = await exportDubbedVideo({ mix, picture, signal: controller.signal, onProgress: setVideoExportProgress });
+      const baseName = safeFileName(project?.name || scene.title);
+      downloadBlob(video, `${baseName}_dub.${videoFileExtension(video.type)}`);
+    } catch (err) {
+      if (!(err instanceof DOMException && err.name === 'AbortError')) reportError("Video export failed", err);
+    } finally {
+      if (videoExportRef.current === controller) videoExportRef.current = null;
+      setVideoExportProgress(null);
+    }
+  };
+
+  const cancelVideoExport = () => videoExportRef.current?.abort();
+
+  const handleImportBundle = async (file: File) => {
+    try {
+      const imported = await importProjectBundle(file);
+      await saveProject(imported);
+      await refreshProjects();
+      await handleOpenProject(imported.id);
+    } catch (err) {
+      reportError("Import failed", err);
+    }
+  };
+
+  const activeLine = currentScene?.dialogue.find(l => l.id === activeLineId) || null;
+  const activeLineTakes = activeLine ? getLineTakes(takes, activeLine.id) : [];
+  const activeTake = activeLine ? getPreferredTake(takes, activeLine.id) : undefined;
+  const editingTake = activeLineTakes.find(t => t.id === editingTakeId);
+  const sceneJobs = renderJobs.filter(job => job.sceneId === currentScene?.id && isJobActive(job));
+  const lipSyncRendering = sceneJobs.some(job => job.kind === 'lipSync');
+  const videoRendering = sceneJobs.some(job => job.kind === 'sceneVideo');
+  const sceneVideoUrl = showSynced && currentScene?.syncedVideoUrl ? currentScene.syncedVideoUrl : currentScene?.videoUrl;
+
+  // Saved reads seed the cache; fresh reads are kept with the project.
+  const loadReferenceClip = async (scene: Scene, line: DialogueLine) => {
+    const voice = getVoiceFor(scene, line.character);
+    const saved = referenceAudio[line.id];
+    if (saved) primeReference(line.text, voice, scene.language, saved);
+
+    const clip = await getReferenceClip(line.text, voice, scene.language);
+    if (clip && !saved) setReferenceAudio(prev => ({ ...prev, [line.id]: clip.pcm }));
+    return clip;
+  };
+
+  const playReference = async (line: DialogueLine) => {
+    if (!currentScene) return;
+    try {
+      const clip = await loadReferenceClip(currentScene, line);
+      if (clip) play(clip.buffer, `${line.character} · ${getVoiceFor(currentScene, line.character)}`);
+    } catch (err) {
+      reportError("Reference read failed", err);
+    }
+  };
+
+
+  // Recasting invalidates the cached reference reads for that character's lines.
+  const handleCast = (character: string, voice: string) => {
+    if (!currentScene) return;
+    const staleLineIds = currentScene.dialogue.filter(l => l.character === character).map(l => l.id);
+    setCurrentScene(prev => prev ? { ...prev, casting: { ...prev.casting, [character]: voice } } : null);
+    setReferenceAudio(prev => {
+      const next = { ...prev };
+      staleLineIds.forEach(id => delete next[id]);
+      return next;
+    });
+  };
+
+  const scriptLocked = appState !== 'READY' || prompter !== null || tableReading;
+
+  /**
+   * Swaps in an edited, undone or redone script. Changed lines lose their
+   * saved reference read, and their takes keep the script they were
+   * recorded against so they show up as stale.
+   */
+  const replaceDialogue = (dialogue: DialogueLine[]) => {
+    if (!currentScene) return;
+    const before = currentScene.dialogue;
+    const changed = changedLineIds(before, dialogue);
+    setTakes(prev => stampTakeScripts(prev, before.filter(line => changed.includes(line.id))));
+    setReferenceAudio(prev => {
+      const next = { ...prev };
+      changed.forEach(id => delete next[id]);
+      return next;
+    });
+    setCurrentScene(prev => prev ? ensureCasting({ ...prev, dialogue }) : null);
+    if (activeLineId && !dialogue.some(line => line.id === activeLineId)) {
+      const index = before.findIndex(line => line.id === activeLineId);
+      setActiveLineId(dialogue[Math.min(index, dialogue.length - 1)]?.id ?? null);
+    }
+  };
+
+  const editScript = (edit: (scene: Scene) => Scene) => {
+    if (!currentScene || scriptLocked) return;
+    const edited = edit(currentScene);
+    if (edited.dialogue === currentScene.dialogue) return;
+    setScriptHistory(prev => recordEdit(prev, currentScene.dialogue));
+    replaceDialogue(edited.dialogue);
+  };
+
+  const handleSaveLine = (lineId: string, patch: LinePatch) => {
+    editScript(scene => updateLine(scene, lineId, patch));
+    setEditingLineId(null);
+  };
+
+  const handleAddLine = (afterLineId: string | null) => {
+    if (!currentScene || scriptLocked) return;
+    const { scene, line } = insertLineAfter(currentScene, afterLineId);
+    editScript(() => scene);
+    setActiveLineId(line.id);
+    setEditingLineId(line.id);
+  };
+
+  const handleDeleteLine = (lineId: string) => {
+    if (currentScene?.dialogue.length === 1) return;
+    editScript(scene => removeLine(scene, lineId));
+    if (editingLineId === lineId) setEditingLineId(null);
+  };
+
+  const handleMoveLine = (lineId: string, delta: number) => editScript(scene => moveLine(scene, lineId, delta));
+
+  const handleRewriteLine = async (lineId: string, instruction: string) => {
+    if (!currentScene || scriptLocked) return;
+    const scene = currentScene;
+    const signal = studio.begin({ type: 'CREATE' });
+    if (!signal) return;
+    setVideoStatus(instruction.trim() ? `Rewriting line: ${instruction.trim()}...` : "Writing an alternative line...");
+    try {
+      const rewrite = await rewriteLine(scene, lineId, instruction);
+      if (signal.aborted) return;
+      // The studio was busy for the rewrite, so nothing else has edited the script since.
+      setScriptHistory(prev => recordEdit(prev, scene.dialogue));
+      replaceDialogue(updateLine(scene, lineId, rewrite).dialogue);
+    } catch (err) {
+      if (!signal.aborted) reportError("Line rewrite failed", err);
+    } finally {
+      studio.finish(signal);
+      setVideoStatus('');
+    }
+  };
+
+  const handleUndo = () => {
+    if (!currentScene || scriptLocked) return;
+    const undone = undoEdit(scriptHistory, currentScene.dialogue);
+    if (!undone) return;
+    setScriptHistory(undone.history);
+    setEditingLineId(null);
+    replaceDialogue(undone.dialogue);
+  };
+
+  const handleRedo = () => {
+    if (!currentScene || scriptLocked) return;
+    const redone = redoEdit(scriptHistory, currentScene.dialogue);
+    if (!redone) return;
+    setScriptHistory(redone.history);
+    setEditingLineId(null);
+    replaceDialogue(redone.dialogue);
+  };
+
+  // The shortcut listener is registered once and reads the latest handlers from here.
+  const undoRedoRef = useRef({ undo: handleUndo, redo: handleRedo });
+  undoRedoRef.current = { undo: handleUndo, redo: handleRedo };
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y); text fields keep their own undo.
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) undoRedoRef.current.undo();
+      else if ((key === 'z' && e.shiftKey) || key === 'y') undoRedoRef.current.redo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const handleAudition = async (character: string, voice: string) => {
+    const sample = currentScene?.dialogue.find(l => l.character === character)?.text || AUDITION_LINE;
+    setAuditioning(character);
+    try {
+      const clip = await getReferenceClip(sample, voice, currentScene?.language || 'en');
+      if (clip) play(clip.buffer, `Audition · ${voice}`);
+    } catch (err) {
+      reportError("Audition failed", err);
+    } finally {
+      setAuditioning(null);
     }
   };
 
@@ -201,13 +1016,27 @@ const App: React.FC = () => {
         <div className="lg:col-span-4 flex flex-col gap-6">
           <section className="glass-card rounded-2xl p-6 shadow-2xl relative overflow-hidden border-t-2 border-t-blue-500">
             <h2 className="text-lg font-semibold mb-4 flex items-center gap-2"><i className="fas fa-film text-blue-400"></i> New Production</h2>
+            <div className="flex bg-slate-950/50 rounded-xl p-1 border border-slate-800 mb-4">
+              {(['generate', 'import'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setProductionMode(mode)}
+                  className={`flex-1 py-1.5 rounded-lg text-[10px] font-black tracking-widest uppercase transition-all ${productionMode === mode ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-white'}`}
+                >{mode === 'generate' ? 'AI Scene' : 'Import Script'}</button>
+              ))}
+            </div>
             <div className="space-y-4">
-              <textarea 
-                value={scenePrompt}
-                onChange={(e) => setScenePrompt(e.target.value)}
-                placeholder="A high-stakes argument in a Victorian library..."
-                className="w-full bg-slate-950/50 border border-slate-700 rounded-xl p-3 text-sm focus:ring-2 focus:ring-blue-500 transition-all min-h-[100px] resize-none"
-              />
+              {productionMode === 'generate' && (
+                <textarea 
+                  value={scenePrompt}
+                  onChange={(e) => setScenePrompt(e.target.value)}
+                  placeholder="A high-stakes argument in a Victorian library..."
+                  className="w-full bg-slate-950/50 border border-slate-700 rounded-xl p-3 text-sm focus:ring-2 focus:ring-blue-500 transition-all min-h-[100px] resize-none"
+                />
+              )}
+              {productionMode === 'generate' && (
+                <SceneOptionsPanel options={sceneOptions} disabled={appState === 'CREATING'} onChange={setSceneOptions} />
+              )}
               <select 
                 value={selectedLang}
                 onChange={(e) => setSelectedLang(e.target.value)}
@@ -232,62 +1061,206 @@ const App: React.FC = () => {
                 </label>
               </div>
 
-              <button 
-                onClick={handleCreateScene}
-                disabled={appState === 'CREATING'}
-                className="w-full bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 text-white font-bold py-4 rounded-xl shadow-lg transition-all active:scale-95"
-              >
-                {appState === 'CREATING' ? <><i className="fas fa-spinner fa-spin mr-2"></i> Generating Stage...</> : "Start Production"}
-              </button>
+              {productionMode === 'generate' ? (
+                <button 
+                  onClick={handleCreateScene}
+                  disabled={appState === 'CREATING' || validateSceneOptions(sceneOptions).length > 0}
+                  className="w-full bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 text-white font-bold py-4 rounded-xl shadow-lg transition-all active:scale-95"
+                >
+                  {appState === 'CREATING' ? <><i className="fas fa-spinner fa-spin mr-2"></i> Generating Stage...</> : "Start Production"}
+                </button>
+              ) : (
+                <ScriptImport
+                  language={selectedLang}
+                  disabled={appState !== 'IDLE' && appState !== 'READY'}
+                  onImport={handleImportScript}
+                />
+              )}
             </div>
           </section>
 
-          {performance && (
-            <section className="glass-card rounded-2xl p-6 border-blue-500/20 animate-in slide-in-from-bottom-6">
-              <h2 className="text-lg font-semibold mb-3 flex items-center gap-2"><i className="fas fa-microphone-lines text-green-400"></i> Current Take</h2>
-              <div className="flex items-center justify-between p-4 bg-slate-950/50 rounded-xl border border-slate-800 mb-4">
-                <div className="flex-1 min-w-0">
-                  <p className="text-sm font-bold text-slate-200 uppercase tracking-tighter">Dub Record #{performance.timestamp.toString().slice(-4)}</p>
-                  <p className="text-xs text-slate-400 italic truncate pr-4">"{performance.transcription || 'No dialogue detected'}"</p>
-                </div>
-                <button onClick={playRecording} className="w-10 h-10 rounded-full bg-green-600/10 text-green-400 hover:bg-green-600 hover:text-white transition-all flex items-center justify-center">
-                  <i className="fas fa-play"></i>
+          <section className="glass-card rounded-2xl p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold flex items-center gap-2"><i className="fas fa-folder-open text-blue-400"></i> Project Library</h2>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  title={`Import ${BUNDLE_EXTENSION} bundle`}
+                  className="w-8 h-8 rounded-full flex items-center justify-center bg-slate-800/50 hover:bg-blue-600 transition-all text-slate-400 hover:text-white"
+                >
+                  <i className="fas fa-file-import text-xs"></i>
+                </button>
+                <button
+                  onClick={handleExportBundle}
+                  disabled={!project || !currentScene || appState !== 'READY'}
+                  title={`Export ${BUNDLE_EXTENSION} bundle`}
+                  className="w-8 h-8 rounded-full flex items-center justify-center bg-slate-800/50 hover:bg-blue-600 transition-all text-slate-400 hover:text-white disabled:opacity-30"
+                >
+                  <i className="fas fa-file-export text-xs"></i>
                 </button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept={`${BUNDLE_EXTENSION},application/zip`}
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) handleImportBundle(file);
+                  }}
+                />
+              </div>
+            </div>
+            <ProjectLibrary
+              projects={projects}
+              activeProjectId={project?.id ?? null}
+              disabled={appState !== 'READY' && appState !== 'IDLE'}
+              onOpen={handleOpenProject}
+              onRename={handleRenameProject}
+              onDuplicate={handleDuplicateProject}
+              onDelete={handleDeleteProject}
+            />
+          </section>
+
+          {renderJobs.length > 0 && (
+            <section className="glass-card rounded-2xl p-6">
+              <h2 className="text-lg font-semibold mb-4 flex items-center gap-2"><i className="fas fa-server text-blue-400"></i> Render Jobs</h2>
+              <RenderJobList jobs={renderJobs} onCancel={cancelJob} onDismiss={dismissJob} />
+            </section>
+          )}
+
+          <section className="glass-card rounded-2xl p-6">
+            <h2 className="text-lg font-semibold mb-4 flex items-center gap-2"><i className="fas fa-sliders text-blue-400"></i> Input</h2>
+            <InputSettingsPanel
+              settings={inputSettings}
+              devices={inputDevices}
+              recorderFormat={recorderFormat}
+              disabled={appState === 'RECORDING'}
+              onChange={handleInputSettingsChange}
+            />
+          </section>
+
+          {currentScene && (
+            <section className="glass-card rounded-2xl p-6">
+              <h2 className="text-lg font-semibold mb-4 flex items-center gap-2"><i className="fas fa-masks-theater text-blue-400"></i> Casting</h2>
+              <CastingPanel
+                scene={currentScene}
+                disabled={appState !== 'READY'}
+                auditioning={auditioning}
+                userRoles={userRoles}
+                onToggleRole={handleToggleRole}
+                onCast={handleCast}
+                onAudition={handleAudition}
+              />
+              <button
+                onClick={startTableRead}
+                disabled={appState !== 'READY' || validRoles(currentScene, userRoles).length === 0}
+                className="w-full mt-4 py-3 rounded-xl text-xs font-black uppercase tracking-widest bg-red-600/10 border border-red-500/30 text-red-400 hover:bg-red-600 hover:text-white transition-all disabled:opacity-30"
+              >
+                <i className="fas fa-book-open mr-2"></i>Start table read
+              </button>
+              <p className="text-[10px] text-slate-500 mt-2">Mark the roles you play; the cast voices read the rest and the mic opens on your lines.</p>
+            </section>
+          )}
+
+          {currentScene && (
+            <section className="glass-card rounded-2xl p-6">
+              <h2 className="text-lg font-semibold mb-4 flex items-center gap-2"><i className="fas fa-compact-disc text-blue-400"></i> Mixdown</h2>
+              <MixdownPanel
+                scene={currentScene}
+                takes={takes}
+                includeReferences={mixReferences}
+                bitDepth={mixBitDepth}
+                busy={mixing}
+                disabled={appState !== 'READY'}
+                onChangeLine={handleLineMix}
+                onToggleReferences={setMixReferences}
+                onBitDepth={setMixBitDepth}
+                onPreview={() => handleMixdown('preview')}
+                onExportMix={() => handleMixdown('mix')}
+                onExportStems={() => handleMixdown('stems')}
+              />
+            </section>
+          )}
+
+          {activeLine && (
+            <section className="glass-card rounded-2xl p-6 border-blue-500/20 animate-in slide-in-from-bottom-6">
+              <h2 className="text-lg font-semibold mb-3 flex items-center gap-2"><i className="fas fa-microphone-lines text-green-400"></i> Takes</h2>
+              <div className="mb-4">
+                <TakeList
+                  line={activeLine}
+                  takes={activeLineTakes}
+                  compareIds={compareIds}
+                  onPlay={playRecording}
+                  onToggleCircle={(takeId) => setTakes(prev => toggleCircledTake(prev, takeId))}
+                  onDelete={handleDeleteTake}
+                  onToggleCompare={handleToggleCompare}
+                  onEdit={(takeId) => setEditingTakeId(takeId)}
+                />
               </div>
+
+              {editingTake && (
+                <div className="mb-4">
+                  <TakeEditor
+                    key={editingTake.id}
+                    take={editingTake}
+                    onSave={(edit, rendered) => handleSaveEdit(editingTake, edit, rendered)}
+                    onClose={() => setEditingTakeId(null)}
+                  />
+                </div>
+              )}
               
-              {currentScene?.videoUrl && performance.transcription && !currentScene?.syncedVideoUrl && (
+              {currentScene?.videoUrl && activeTake?.transcription && !currentScene?.syncedVideoUrl && (
                 <button 
                   onClick={handleLipSync}
-                  disabled={appState === 'SYNCING'}
+                  disabled={lipSyncRendering}
                   className="w-full mb-4 py-3 bg-gradient-to-r from-indigo-600 to-purple-600 rounded-xl font-bold text-sm shadow-xl hover:scale-[1.02] active:scale-95 transition-all disabled:opacity-50"
                 >
                   <i className="fas fa-sync-alt mr-2"></i> 
-                  {appState === 'SYNCING' ? "Syncing Mouths..." : "Generate AI Lip-Sync"}
+                  {lipSyncRendering ? "Syncing Mouths..." : "Generate AI Lip-Sync"}
                 </button>
               )}
 
-              {feedback && (
-                <div className="p-4 bg-blue-500/5 border border-blue-500/10 rounded-xl">
-                  <span className="text-[10px] font-bold text-blue-400 uppercase tracking-[0.2em] block mb-2">Director's Review</span>
-                  <p className="text-sm italic text-slate-300 leading-relaxed">"{feedback}"</p>
+              {activeTake?.sync && (
+                <div className="mb-4">
+                  <SyncOverlay sync={activeTake.sync} takeNumber={activeTake.takeNumber} />
+                </div>
+              )}
+
+              {activeTake?.pitch && currentScene && activeLine && (
+                <div className="mb-4">
+                  <PitchContourView
+                    comparison={activeTake.pitch}
+                    takeNumber={activeTake.takeNumber}
+                    emotion={activeLine.emotion}
+                    language={currentScene.language}
+                  />
                 </div>
               )}
+
+              {activeTake?.feedback && (
+                <ScoreCard feedback={activeTake.feedback} takeNumber={activeTake.takeNumber} lineTakes={activeLineTakes} />
+              )}
             </section>
           )}
         </div>
 
         <div className="lg:col-span-8 flex flex-col gap-6">
           <section className="flex-1 glass-card rounded-2xl p-6 md:p-8 relative flex flex-col overflow-hidden shadow-2xl">
-            {['CREATING', 'SYNCING', 'ANALYZING'].includes(appState) ? (
+            {['CREATING', 'ANALYZING'].includes(appState) ? (
               <div className="flex-1 flex flex-col items-center justify-center text-center py-20 animate-pulse">
                 <div className="relative mb-8">
                   <div className="w-24 h-24 border-4 border-blue-500/20 border-t-blue-500 rounded-full animate-spin"></div>
-                  <i className={`fas ${appState === 'SYNCING' ? 'fa-sync-alt' : 'fa-film'} text-3xl text-blue-400 absolute inset-0 flex items-center justify-center`}></i>
+                  <i className={`fas fa-film text-3xl text-blue-400 absolute inset-0 flex items-center justify-center`}></i>
                 </div>
                 <h3 className="text-2xl font-bold mb-2">Creative Engine Processing</h3>
                 <div className="px-6 py-2 bg-slate-900 border border-slate-800 rounded-full">
                   <span className="text-xs font-mono text-blue-400 uppercase tracking-[0.2em]">{videoStatus || "Processing data..."}</span>
                 </div>
+                <button
+                  onClick={() => { studio.cancel(); setVideoStatus(''); }}
+                  className="mt-6 px-4 py-2 rounded-xl text-[10px] font-black tracking-widest uppercase bg-slate-800/50 border border-slate-700 text-slate-400 hover:bg-red-600 hover:text-white transition-all"
+                >Cancel</button>
               </div>
             ) : !currentScene ? (
               <div className="flex-1 flex flex-col items-center justify-center text-center opacity-30 py-32 group">
@@ -298,21 +1271,19 @@ const App: React.FC = () => {
             ) : (
               <div className="flex-1 flex flex-col animate-in fade-in duration-700">
                 <div className="relative w-full aspect-video rounded-2xl overflow-hidden mb-8 bg-slate-950 border-4 border-slate-900 shadow-2xl">
-                  { (showSynced && currentScene.syncedVideoUrl) || currentScene.videoUrl ? (
-                    <video 
-                      src={showSynced && currentScene.syncedVideoUrl ? currentScene.syncedVideoUrl : currentScene.videoUrl} 
-                      autoPlay loop muted playsInline
-                      className="w-full h-full object-cover"
-                      key={showSynced ? 'synced' : 'original'}
-                    />
-                  ) : currentScene.imageUrl ? (
-                    <img src={currentScene.imageUrl} className="w-full h-full object-cover" alt="Scene Concept" />
-                  ) : (
-                    <div className="w-full h-full flex items-center justify-center bg-slate-900">
-                       <i className="fas fa-image text-4xl text-slate-700"></i>
-                    </div>
-                  ) }
+                  <SceneMonitor
+                    key={showSynced ? 'synced' : 'original'}
+                    videoUrl={sceneVideoUrl && videoSourceUrl(sceneVideoUrl)}
+                    imageUrl={currentScene.imageUrl}
+                    syncPlaybackId={mixdownPlaybackId(currentScene)}
+                  />
                   
+                  {videoRendering && (
+                    <div className="absolute top-4 right-4 px-3 py-1.5 bg-slate-900/90 rounded-xl border border-white/10 backdrop-blur-md z-10 text-[10px] font-black tracking-widest text-blue-400 uppercase">
+                      <i className="fas fa-spinner fa-spin mr-2"></i>Rendering video
+                    </div>
+                  )}
+
                   {currentScene.syncedVideoUrl && (
                     <div className="absolute top-4 left-4 flex bg-slate-900/90 rounded-xl p-1 border border-white/10 backdrop-blur-md z-10">
                       <button 
@@ -335,43 +1306,163 @@ const App: React.FC = () => {
                   </div>
                 </div>
 
-                <div className="flex-1 space-y-6 overflow-y-auto pr-4 custom-scrollbar mb-8">
-                  {currentScene.dialogue.map((line, idx) => (
-                    <div key={idx} className="group flex flex-col gap-1 border-l-2 border-l-transparent hover:border-l-blue-500 pl-4 transition-all">
-                      <div className="flex items-center gap-3">
-                        <span className="text-[10px] font-black text-blue-500 uppercase tracking-[0.2em]">{line.character}</span>
-                        <span className="text-[9px] px-2 py-0.5 rounded-full bg-slate-800 text-slate-400 uppercase font-bold border border-slate-700">{line.emotion}</span>
-                        <button onClick={() => playReference(line.text)} className="w-8 h-8 rounded-full flex items-center justify-center bg-slate-800/50 hover:bg-blue-600 transition-all text-slate-500 hover:text-white">
-                          <i className="fas fa-volume-up text-[10px]"></i>
-                        </button>
-                      </div>
-                      <p className="text-xl font-medium text-slate-100 group-hover:text-white transition-colors">{line.text}</p>
-                    </div>
+                <div className="flex items-center justify-end gap-2 mb-4">
+                  <div className="flex items-center gap-2 mr-auto">
+                    <button
+                      onClick={() => handleMixdown('preview')}
+                      disabled={mixing || videoExportProgress !== null}
+                      className="px-3 py-1 rounded-lg text-[10px] font-black tracking-widest uppercase bg-slate-800/50 border border-slate-700 text-slate-400 hover:bg-blue-600 hover:text-white transition-all disabled:opacity-30"
+                    ><i className="fas fa-play mr-1"></i> Play dub</button>
+                    {videoExportProgress === null ? (
+                      <button
+                        onClick={handleExportVideo}
+                        disabled={mixing}
+                        className="px-3 py-1 rounded-lg text-[10px] font-black tracking-widest uppercase bg-slate-800/50 border border-slate-700 text-slate-400 hover:bg-blue-600 hover:text-white transition-all disabled:opacity-30"
+                      ><i className="fas fa-film mr-1"></i> Export video</button>
+                    ) : (
+                      <button
+                        onClick={cancelVideoExport}
+                        className="px-3 py-1 rounded-lg text-[10px] font-black tracking-widest uppercase bg-slate-800/50 border border-slate-700 text-slate-400 hover:bg-red-600 hover:text-white transition-all"
+                      ><i className="fas fa-spinner fa-spin mr-1"></i> {Math.round(videoExportProgress * 100)}% &middot; Cancel</button>
+                    )}
+                  </div>
+                  <select
+                    value={translationTarget}
+                    onChange={(e) => setTranslationTarget(e.target.value)}
+                    className="bg-slate-950/50 border border-slate-700 rounded-lg px-2 py-1 text-[10px] font-bold uppercase tracking-widest text-slate-400 appearance-none cursor-pointer"
+                  >
+                    <option value="">Translate to...</option>
+                    {SUPPORTED_LANGUAGES.filter(lang => lang.code !== currentScene.language).map(lang => (
+                      <option key={lang.code} value={lang.code}>{lang.name}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={handleTranslate}
+                    disabled={!translationTarget || appState !== 'READY'}
+                    className="px-3 py-1 rounded-lg text-[10px] font-black tracking-widest uppercase bg-slate-800/50 border border-slate-700 text-slate-400 hover:bg-blue-600 hover:text-white transition-all disabled:opacity-30 mr-4"
+                  ><i className="fas fa-language mr-1"></i> Go</button>
+                  <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mr-1">Export timing</span>
+                  {(['srt', 'vtt', 'csv'] as const).map(format => (
+                    <button
+                      key={format}
+                      onClick={() => handleExportTiming(format)}
+                      className="px-3 py-1 rounded-lg text-[10px] font-black tracking-widest uppercase bg-slate-800/50 border border-slate-700 text-slate-400 hover:bg-blue-600 hover:text-white transition-all"
+                    >{format}</button>
                   ))}
                 </div>
 
+                {prompter ? (
+                  <Teleprompter scene={currentScene} prompter={prompter} />
+                ) : (
+                  <div className="flex-1 space-y-6 overflow-y-auto pr-4 custom-scrollbar mb-8">
+                    <div className="flex items-center gap-2 text-[10px] font-black tracking-widest uppercase">
+                      <span className="text-slate-500 mr-1">Script</span>
+                      <button
+                        onClick={handleUndo}
+                        disabled={scriptLocked || scriptHistory.past.length === 0}
+                        title="Undo (Ctrl+Z)"
+                        className="px-2 py-1 rounded-lg bg-slate-800/50 border border-slate-700 text-slate-400 hover:bg-blue-600 hover:text-white transition-all disabled:opacity-30"
+                      ><i className="fas fa-rotate-left"></i></button>
+                      <button
+                        onClick={handleRedo}
+                        disabled={scriptLocked || scriptHistory.future.length === 0}
+                        title="Redo (Ctrl+Shift+Z)"
+                        className="px-2 py-1 rounded-lg bg-slate-800/50 border border-slate-700 text-slate-400 hover:bg-blue-600 hover:text-white transition-all disabled:opacity-30"
+                      ><i className="fas fa-rotate-right"></i></button>
+                      <button
+                        onClick={() => handleAddLine(null)}
+                        disabled={scriptLocked}
+                        className="px-3 py-1 rounded-lg bg-slate-800/50 border border-slate-700 text-slate-400 hover:bg-blue-600 hover:text-white transition-all disabled:opacity-30"
+                      ><i className="fas fa-plus mr-1"></i> Add line</button>
+                    </div>
+                    {currentScene.dialogue.map((line) => line.id === editingLineId && !scriptLocked ? (
+                      <ScriptLineEditor
+                        key={`${line.id}:${line.character}:${line.text}:${line.emotion}`}
+                        line={line}
+                        characters={getCharacters(currentScene)}
+                        onSave={patch => handleSaveLine(line.id, patch)}
+                        onCancel={() => setEditingLineId(null)}
+                        onRewrite={instruction => handleRewriteLine(line.id, instruction)}
+                      />
+                    ) : (
+                      <ScriptLine
+                        key={line.id}
+                        line={line}
+                        language={currentScene.language}
+                        sourceLanguage={currentScene.sourceLanguage}
+                        isActive={line.id === activeLineId}
+                        takeCount={getLineTakes(takes, line.id).length}
+                        staleTakeCount={getLineTakes(takes, line.id).filter(take => isTakeStale(take, line)).length}
+                        transcription={getPreferredTake(takes, line.id)?.transcription}
+                        recordedText={getPreferredTake(takes, line.id)?.script?.text}
+                        onSelect={() => appState !== 'RECORDING' && setActiveLineId(line.id)}
+                        onPlayReference={() => playReference(line)}
+                        editActions={scriptLocked ? undefined : {
+                          onEdit: () => { setActiveLineId(line.id); setEditingLineId(line.id); },
+                          onMove: delta => handleMoveLine(line.id, delta),
+                          onAddAfter: () => handleAddLine(line.id),
+                          onDelete: () => handleDeleteLine(line.id)
+                        }}
+                      />
+                    ))}
+                  </div>
+                )}
+
+                <PlaybackBar />
+
                 <div className="pt-6 border-t border-slate-800/50">
-                  <div className="mb-6 h-12"><AudioVisualizer stream={streamRef.current} isRecording={appState === 'RECORDING'} /></div>
+                  <div className="flex items-center justify-center gap-6 mb-4 text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input type="checkbox" checked={prompterEnabled} onChange={e => setPrompterEnabled(e.target.checked)} disabled={appState === 'RECORDING'} className="accent-red-500" />
+                      Teleprompter
+                    </label>
+                    <label className="flex items-center gap-2">
+                      Pre-roll
+                      <select
+                        value={countdownSeconds}
+                        onChange={e => setCountdownSeconds(Number(e.target.value))}
+                        disabled={!prompterEnabled || appState === 'RECORDING'}
+                        className="bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-slate-300 outline-none disabled:opacity-30"
+                      >
+                        {COUNTDOWN_OPTIONS.map(seconds => <option key={seconds} value={seconds}>{seconds}s</option>)}
+                      </select>
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input type="checkbox" checked={autoStop} onChange={e => setAutoStop(e.target.checked)} disabled={!prompterEnabled || appState === 'RECORDING'} className="accent-red-500" />
+                      Auto-stop
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input type="checkbox" checked={monitorStream !== null} onChange={toggleMonitor} disabled={appState === 'RECORDING'} className="accent-red-500" />
+                      Monitor input
+                    </label>
+                  </div>
+                  <div className="mb-6">
+                    <AudioVisualizer
+                      stream={appState === 'RECORDING' ? streamRef.current : monitorStream}
+                      live={appState === 'RECORDING' || monitorStream !== null}
+                      clip={activeTake?.audioBlob}
+                    />
+                  </div>
                   <div className="flex items-center justify-center gap-10">
                     {appState !== 'RECORDING' ? (
                       <button onClick={startRecording} className="w-20 h-20 rounded-full bg-red-600 flex items-center justify-center text-white shadow-2xl shadow-red-600/40 hover:scale-110 active:scale-90 transition-all group">
                         <i className="fas fa-microphone text-2xl group-hover:scale-110 transition-transform"></i>
                       </button>
                     ) : (
-                      <button onClick={stopRecording} className="w-20 h-20 rounded-full bg-white flex items-center justify-center text-red-600 shadow-2xl shadow-white/20 recording-pulse active:scale-95 transition-all">
+                      <button onClick={() => tableReading ? stopTableRead() : stopRecording()} className="w-20 h-20 rounded-full bg-white flex items-center justify-center text-red-600 shadow-2xl shadow-white/20 recording-pulse active:scale-95 transition-all">
                         <i className="fas fa-stop text-2xl"></i>
                       </button>
                     )}
                     <div className="text-left w-40">
                       <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest leading-none mb-1">
-                        {appState === 'RECORDING' ? "Session Rolling" : "Standby for Dub"}
+                        {prompter?.phase === 'countdown' ? "Counting In" : tableReading ? "Table Read" : appState === 'RECORDING' ? "Session Rolling" : "Standby for Dub"}
                       </p>
                       {appState === 'RECORDING' ? (
                         <div className="flex items-center gap-2 text-red-500 font-mono text-xs">
                           <span className="w-1.5 h-1.5 rounded-full bg-red-500 animate-pulse"></span>
                           <span>RECORDING</span>
                         </div>
-                      ) : <p className="text-xs text-slate-400 font-medium">Click to perform</p>}
+                      ) : <p className="text-xs text-slate-400 font-medium">{activeLine ? `Dub ${activeLine.character}'s line` : 'Select a line to perform'}</p>}
                     </div>
                   </div>
                 </div>
@@ -381,10 +1472,12 @@ const App: React.FC = () => {
         </div>
       </main>
 
+      {notice && <ErrorNotice notice={notice} onDismiss={() => setNotice(null)} />}
+
       <footer className="px-6 py-4 border-t border-slate-800 bg-slate-900/80 text-[10px] flex justify-between items-center text-slate-500">
         <div className="flex items-center gap-6">
           <span className="flex items-center gap-2"><span className="w-1.5 h-1.5 rounded-full bg-green-500"></span><span className="uppercase font-bold text-slate-400 tracking-widest">Cinema Studio Online</span></span>
-          <span className="opacity-50">Gemini 3 + Veo Pipeline</span>
+          <span className="opacity-50">{getProvider().label}</span>
         </div>
         <div className="font-bold tracking-widest uppercase">&copy; 2024 DUBMASTER PRODUCTIONS</div>
       </footer>
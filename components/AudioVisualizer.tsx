@@ -1,55 +1,181 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { decodeBlob } from '../services/playbackEngine';
+import { computePeaks, mixToMono } from '../services/audioEdit';
+import { measureFrame, meterPosition, spectrumDb, Levels, QUIET_RMS_DB, METER_FLOOR_DB } from '../services/audioAnalysis';
 
-import React, { useEffect, useRef } from 'react';
+export type VisualizerMode = 'bars' | 'waveform' | 'spectrogram' | 'meter';
 
 interface Props {
-  stream: MediaStream | null;
-  isRecording: boolean;
+  // Live input, drawn while `live` is set: the recording or input-monitor stream.
+  stream?: MediaStream | null;
+  live?: boolean;
+  // A finished take; drawn as a static overview when there's no live input.
+  clip?: Blob;
+  defaultMode?: VisualizerMode;
 }
 
-const AudioVisualizer: React.FC<Props> = ({ stream, isRecording }) => {
+const MODES: { mode: VisualizerMode; label: string; icon: string }[] = [
+  { mode: 'bars', label: 'Spectrum', icon: 'fa-chart-simple' },
+  { mode: 'waveform', label: 'Waveform', icon: 'fa-wave-square' },
+  { mode: 'spectrogram', label: 'Spectrogram', icon: 'fa-fire' },
+  { mode: 'meter', label: 'Level meter', icon: 'fa-gauge-high' }
+];
+
+const WIDTH = 400;
+const HEIGHT = 100;
+const SPECTROGRAM_FLOOR_DB = -100;
+const SPECTROGRAM_CEILING_DB = -20;
+// Speech sits well below this, so the spectrogram doesn't spend pixels above it.
+const SPECTROGRAM_MAX_HZ = 8000;
+const STATIC_FFT_SIZE = 512;
+const CLIP_HOLD_MS = 1500;
+const QUIET_AFTER_MS = 2000;
+const PEAK_HOLD_DECAY_DB = 0.5;
+
+// Dark blue through red for spectrogram intensity in 0..1.
+const heatColor = (t: number) => `hsl(${240 - 240 * t}, 90%, ${10 + 50 * t}%)`;
+
+const spectrogramIntensity = (db: number) =>
+  Math.max(0, Math.min(1, (db - SPECTROGRAM_FLOOR_DB) / (SPECTROGRAM_CEILING_DB - SPECTROGRAM_FLOOR_DB)));
+
+const drawMeter = (ctx: CanvasRenderingContext2D, levels: Levels, peakHoldDb: number) => {
+  ctx.clearRect(0, 0, WIDTH, HEIGHT);
+  const barTop = 30;
+  const barHeight = 36;
+  ctx.fillStyle = 'rgb(30, 41, 59)';
+  ctx.fillRect(0, barTop, WIDTH, barHeight);
+
+  const rmsWidth = meterPosition(levels.rmsDb) * WIDTH;
+  const gradient = ctx.createLinearGradient(0, 0, WIDTH, 0);
+  gradient.addColorStop(0, 'rgb(34, 197, 94)');
+  gradient.addColorStop(meterPosition(-12), 'rgb(34, 197, 94)');
+  gradient.addColorStop(meterPosition(-6), 'rgb(250, 204, 21)');
+  gradient.addColorStop(1, 'rgb(239, 68, 68)');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, barTop, rmsWidth, barHeight);
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.35)';
+  ctx.fillRect(0, barTop + barHeight - 6, meterPosition(levels.peakDb) * WIDTH, 6);
+  ctx.fillStyle = 'white';
+  ctx.fillRect(meterPosition(peakHoldDb) * WIDTH - 1, barTop - 4, 2, barHeight + 8);
+
+  ctx.font = '10px monospace';
+  ctx.fillStyle = 'rgb(100, 116, 139)';
+  for (let db = METER_FLOOR_DB; db <= 0; db += 10) {
+    const x = meterPosition(db) * WIDTH;
+    ctx.fillRect(x, barTop + barHeight + 4, 1, 4);
+    ctx.fillText(`${db}`, Math.min(WIDTH - 14, Math.max(0, x - 8)), HEIGHT - 8);
+  }
+  const format = (db: number) => Number.isFinite(db) ? db.toFixed(1) : '-inf';
+  ctx.fillStyle = 'rgb(203, 213, 225)';
+  ctx.fillText(`RMS ${format(levels.rmsDb)} dBFS   PEAK ${format(levels.peakDb)} dBFS`, 4, 18);
+};
+
+const AudioVisualizer: React.FC<Props> = ({ stream = null, live = false, clip, defaultMode = 'bars' }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number | undefined>(undefined);
+  const [mode, setMode] = useState<VisualizerMode>(defaultMode);
+  const [clipping, setClipping] = useState(false);
+  const [tooQuiet, setTooQuiet] = useState(false);
+  const isLive = live && stream !== null;
 
+  // Live input.
   useEffect(() => {
-    if (!stream || !isRecording) {
+    setClipping(false);
+    setTooQuiet(false);
+    if (!stream || !live) {
       if (animationRef.current) cancelAnimationFrame(animationRef.current);
       return;
     }
 
     /**
      * Fix: Removed the explicit { sampleRate: 16000 } configuration.
-     * Browsers (especially Firefox) throw a NotSupportedError if createMediaStreamSource 
-     * is called on an AudioContext whose sampleRate does not match the MediaStream's 
+     * Browsers (especially Firefox) throw a NotSupportedError if createMediaStreamSource
+     * is called on an AudioContext whose sampleRate does not match the MediaStream's
      * hardware sample rate. Using the default constructor ensures they match.
      */
     const AudioContextClass = (window.AudioContext || (window as any).webkitAudioContext);
     const audioContext = new AudioContextClass();
     const source = audioContext.createMediaStreamSource(stream);
     const analyser = audioContext.createAnalyser();
-    analyser.fftSize = 256;
+    analyser.fftSize = mode === 'bars' ? 256 : 2048;
+    analyser.smoothingTimeConstant = mode === 'bars' ? 0.8 : 0;
     source.connect(analyser);
 
     const bufferLength = analyser.frequencyBinCount;
-    const dataArray = new Uint8Array(bufferLength);
+    const byteData = new Uint8Array(bufferLength);
+    const frequencyData = new Float32Array(bufferLength);
+    const timeData = new Float32Array(analyser.fftSize);
     const canvas = canvasRef.current;
     if (!canvas) return;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
+    ctx.clearRect(0, 0, WIDTH, HEIGHT);
+
+    const maxBin = Math.min(bufferLength, Math.round(SPECTROGRAM_MAX_HZ / (audioContext.sampleRate / 2) * bufferLength));
+    let peakHoldDb = -Infinity;
+    let lastClipAt = -Infinity;
+    let quietSince: number | null = null;
+    let clipShown = false;
+    let quietShown = false;
+
+    // Only touch React state when a warning flips, not on every frame.
+    const updateWarnings = (levels: Levels, now: number) => {
+      if (levels.clipped) lastClipAt = now;
+      const clipNow = now - lastClipAt < CLIP_HOLD_MS;
+      if (clipNow !== clipShown) setClipping(clipShown = clipNow);
+
+      if (levels.rmsDb < QUIET_RMS_DB) quietSince ??= now;
+      else quietSince = null;
+      const quietNow = quietSince !== null && now - quietSince > QUIET_AFTER_MS;
+      if (quietNow !== quietShown) setTooQuiet(quietShown = quietNow);
+    };
+
+    // Scrolling modes move the existing image left and paint the newest column on the right.
+    const scroll = (pixels: number) => {
+      ctx.drawImage(canvas, -pixels, 0);
+      ctx.clearRect(WIDTH - pixels, 0, pixels, HEIGHT);
+    };
 
     const draw = () => {
       animationRef.current = requestAnimationFrame(draw);
-      analyser.getByteFrequencyData(dataArray);
-
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      const barWidth = (canvas.width / bufferLength) * 2.5;
-      let barHeight;
-      let x = 0;
-
-      for (let i = 0; i < bufferLength; i++) {
-        barHeight = dataArray[i] / 2;
-        ctx.fillStyle = `rgb(96, 165, 250)`;
-        ctx.fillRect(x, canvas.height - barHeight, barWidth, barHeight);
-        x += barWidth + 1;
+      analyser.getFloatTimeDomainData(timeData);
+      const levels = measureFrame(timeData);
+      updateWarnings(levels, performance.now());
+
+      if (mode === 'bars') {
+        analyser.getByteFrequencyData(byteData);
+        ctx.clearRect(0, 0, WIDTH, HEIGHT);
+        const barWidth = (WIDTH / bufferLength) * 2.5;
+        let x = 0;
+        for (let i = 0; i < bufferLength; i++) {
+          const barHeight = byteData[i] / 2;
+          ctx.fillStyle = `rgb(96, 165, 250)`;
+          ctx.fillRect(x, HEIGHT - barHeight, barWidth, barHeight);
+          x += barWidth + 1;
+        }
+      } else if (mode === 'waveform') {
+        let min = 0;
+        let max = 0;
+        for (let i = 0; i < timeData.length; i++) {
+          min = Math.min(min, timeData[i]);
+          max = Math.max(max, timeData[i]);
+        }
+        scroll(2);
+        ctx.fillStyle = levels.clipped ? 'rgb(239, 68, 68)' : 'rgb(96, 165, 250)';
+        const top = (1 - max) * HEIGHT / 2;
+        ctx.fillRect(WIDTH - 2, top, 2, Math.max(1, (max - min) * HEIGHT / 2));
+      } else if (mode === 'spectrogram') {
+        analyser.getFloatFrequencyData(frequencyData);
+        scroll(1);
+        for (let y = 0; y < HEIGHT; y++) {
+          const bin = Math.floor((1 - y / HEIGHT) * maxBin);
+          ctx.fillStyle = heatColor(spectrogramIntensity(frequencyData[bin]));
+          ctx.fillRect(WIDTH - 1, y, 1, 1);
+        }
+      } else {
+        peakHoldDb = Math.max(levels.peakDb, peakHoldDb - PEAK_HOLD_DECAY_DB);
+        drawMeter(ctx, levels, peakHoldDb);
       }
     };
 
@@ -59,15 +185,75 @@ const AudioVisualizer: React.FC<Props> = ({ stream, isRecording }) => {
       if (animationRef.current) cancelAnimationFrame(animationRef.current);
       audioContext.close();
     };
-  }, [stream, isRecording]);
+  }, [stream, live, mode]);
+
+  // Static overview of a finished take.
+  useEffect(() => {
+    if (isLive) return;
+    if (!clip) {
+      canvasRef.current?.getContext('2d')?.clearRect(0, 0, WIDTH, HEIGHT);
+      return;
+    }
+    let cancelled = false;
+    decodeBlob(clip).then(buffer => {
+      const ctx = canvasRef.current?.getContext('2d');
+      if (cancelled || !ctx) return;
+      const samples = mixToMono(buffer);
+      const levels = measureFrame(samples);
+      setClipping(levels.clipped);
+      setTooQuiet(levels.rmsDb < QUIET_RMS_DB);
+      ctx.clearRect(0, 0, WIDTH, HEIGHT);
+
+      if (mode === 'spectrogram') {
+        const maxBin = Math.min(STATIC_FFT_SIZE / 2, Math.round(SPECTROGRAM_MAX_HZ / (buffer.sampleRate / 2) * STATIC_FFT_SIZE / 2));
+        const frame = new Float32Array(STATIC_FFT_SIZE);
+        for (let x = 0; x < WIDTH; x++) {
+          const start = Math.floor((x / WIDTH) * Math.max(0, samples.length - STATIC_FFT_SIZE));
+          frame.set(samples.subarray(start, start + STATIC_FFT_SIZE));
+          const spectrum = spectrumDb(frame);
+          for (let y = 0; y < HEIGHT; y++) {
+            ctx.fillStyle = heatColor(spectrogramIntensity(spectrum[Math.floor((1 - y / HEIGHT) * maxBin)]));
+            ctx.fillRect(x, y, 1, 1);
+          }
+        }
+      } else if (mode === 'meter') {
+        drawMeter(ctx, levels, levels.peakDb);
+      } else {
+        const peaks = computePeaks(samples, WIDTH / 2);
+        ctx.fillStyle = 'rgb(96, 165, 250)';
+        peaks.forEach((peak, i) => {
+          const barHeight = Math.max(1, peak * HEIGHT);
+          ctx.fillRect(i * 2, (HEIGHT - barHeight) / 2, 1, barHeight);
+        });
+      }
+    }, err => console.error("Could not draw take overview", err));
+    return () => { cancelled = true; };
+  }, [clip, mode, isLive]);
 
   return (
-    <canvas 
-      ref={canvasRef} 
-      width={400} 
-      height={100} 
-      className="w-full h-24 rounded-lg bg-slate-900/50 border border-slate-700"
-    />
+    <div className="space-y-1">
+      <div className="flex items-center gap-1">
+        {MODES.map(option => (
+          <button
+            key={option.mode}
+            onClick={() => setMode(option.mode)}
+            title={option.label}
+            className={`w-6 h-6 rounded-md flex items-center justify-center text-[10px] transition-all ${mode === option.mode ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+          >
+            <i className={`fas ${option.icon}`}></i>
+          </button>
+        ))}
+        <span className="flex-1"></span>
+        {clipping && <span className="px-2 py-0.5 rounded bg-red-600 text-white text-[9px] font-black tracking-widest">CLIP</span>}
+        {tooQuiet && <span className="px-2 py-0.5 rounded bg-amber-500/20 text-amber-400 text-[9px] font-black tracking-widest">TOO QUIET</span>}
+      </div>
+      <canvas
+        ref={canvasRef}
+        width={WIDTH}
+        height={HEIGHT}
+        className="w-full h-24 rounded-lg bg-slate-900/50 border border-slate-700"
+      />
+    </div>
   );
 };
 
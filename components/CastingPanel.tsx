@@ -0,0 +1,54 @@
+
+import React from 'react';
+import { Scene } from '../types';
+import { PREBUILT_VOICES, getCharacters, getVoiceFor } from '../services/casting';
+
+interface Props {
+  scene: Scene;
+  disabled?: boolean;
+  auditioning: string | null;
+  userRoles: string[];
+  onToggleRole: (character: string) => void;
+  onCast: (character: string, voice: string) => void;
+  onAudition: (character: string, voice: string) => void;
+}
+
+const CastingPanel: React.FC<Props> = ({ scene, disabled, auditioning, userRoles, onToggleRole, onCast, onAudition }) => (
+  <ul className="space-y-2">
+    {getCharacters(scene).map(character => {
+      const voice = getVoiceFor(scene, character);
+      const isUser = userRoles.includes(character);
+      return (
+        <li key={character} className="flex items-center gap-2 p-2 bg-slate-950/40 rounded-xl border border-slate-800">
+          <span className="flex-1 min-w-0 text-[10px] font-black text-blue-500 uppercase tracking-[0.2em] truncate">{character}</span>
+          <button
+            onClick={() => onToggleRole(character)}
+            disabled={disabled}
+            title={isUser ? 'You play this role' : 'Play this role yourself'}
+            className={`px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest border transition-all disabled:opacity-40 ${isUser ? 'border-red-500 text-red-400 bg-red-500/10' : 'border-slate-700 text-slate-600 hover:text-slate-300'}`}
+          >
+            <i className="fas fa-user mr-1"></i>You
+          </button>
+          <select
+            value={voice}
+            disabled={disabled || isUser}
+            onChange={(e) => onCast(character, e.target.value)}
+            className="bg-slate-950/50 border border-slate-700 rounded-lg px-2 py-1 text-xs appearance-none cursor-pointer"
+          >
+            {PREBUILT_VOICES.map(v => <option key={v.name} value={v.name}>{v.name} &middot; {v.style}</option>)}
+          </select>
+          <button
+            onClick={() => onAudition(character, voice)}
+            disabled={disabled || auditioning !== null}
+            title="Audition voice"
+            className="w-8 h-8 rounded-full flex items-center justify-center bg-slate-800/50 hover:bg-blue-600 transition-all text-slate-500 hover:text-white disabled:opacity-40"
+          >
+            <i className={`fas ${auditioning === character ? 'fa-spinner fa-spin' : 'fa-headphones'} text-[10px]`}></i>
+          </button>
+        </li>
+      );
+    })}
+  </ul>
+);
+
+export default CastingPanel;
@@ -0,0 +1,34 @@
+
+import React from 'react';
+
+export interface Notice {
+  // What the studio was doing, e.g. "Scene generation failed".
+  context: string;
+  title: string;
+  action: string;
+  detail?: string;
+}
+
+interface Props {
+  notice: Notice;
+  onDismiss: () => void;
+}
+
+const ErrorNotice: React.FC<Props> = ({ notice, onDismiss }) => (
+  <div role="alert" className="fixed bottom-16 right-6 z-50 max-w-sm p-4 bg-slate-900/95 border border-red-500/40 rounded-2xl shadow-2xl backdrop-blur-md animate-in slide-in-from-bottom-6">
+    <div className="flex items-start gap-3">
+      <i className="fas fa-triangle-exclamation text-red-400 mt-0.5"></i>
+      <div className="flex-1 min-w-0">
+        <p className="text-[10px] font-black text-red-400 uppercase tracking-widest">{notice.context}</p>
+        <p className="text-sm font-bold text-slate-100 mt-1">{notice.title}</p>
+        <p className="text-xs text-slate-400 mt-1 leading-relaxed">{notice.action}</p>
+        {notice.detail && <p className="text-[10px] font-mono text-slate-600 mt-2 break-words">{notice.detail}</p>}
+      </div>
+      <button onClick={onDismiss} title="Dismiss" className="text-slate-500 hover:text-white transition-colors">
+        <i className="fas fa-xmark text-xs"></i>
+      </button>
+    </div>
+  </div>
+);
+
+export default ErrorNotice;
@@ -0,0 +1,63 @@
+
+import React from 'react';
+import { InputSettings } from '../services/audioInput';
+
+interface Props {
+  settings: InputSettings;
+  devices: MediaDeviceInfo[];
+  // The negotiated recorder format, or undefined when the browser picks its own.
+  recorderFormat?: string;
+  disabled?: boolean;
+  onChange: (settings: InputSettings) => void;
+}
+
+const PROCESSING_OPTIONS: { key: 'echoCancellation' | 'noiseSuppression' | 'autoGainControl'; label: string }[] = [
+  { key: 'echoCancellation', label: 'Echo cancellation' },
+  { key: 'noiseSuppression', label: 'Noise suppression' },
+  { key: 'autoGainControl', label: 'Auto gain' }
+];
+
+const InputSettingsPanel: React.FC<Props> = ({ settings, devices, recorderFormat, disabled, onChange }) => {
+  const missing = settings.deviceId !== null && !devices.some(device => device.deviceId === settings.deviceId);
+
+  return (
+    <div className="space-y-3">
+      <select
+        value={settings.deviceId ?? ''}
+        disabled={disabled}
+        onChange={(e) => onChange({ ...settings, deviceId: e.target.value || null })}
+        className="w-full bg-slate-950/50 border border-slate-700 rounded-lg px-3 py-2 text-xs appearance-none cursor-pointer disabled:opacity-40"
+      >
+        <option value="">Default microphone</option>
+        {devices.map((device, index) => (
+          <option key={device.deviceId} value={device.deviceId}>{device.label || `Microphone ${index + 1}`}</option>
+        ))}
+        {missing && <option value={settings.deviceId ?? ''} disabled>Disconnected microphone</option>}
+      </select>
+      {missing && (
+        <p className="text-[10px] text-amber-400">The selected microphone isn't connected. Reconnect it or pick another input.</p>
+      )}
+
+      <div className="flex flex-wrap gap-x-4 gap-y-2 text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+        {PROCESSING_OPTIONS.map(option => (
+          <label key={option.key} className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings[option.key]}
+              disabled={disabled}
+              onChange={(e) => onChange({ ...settings, [option.key]: e.target.checked })}
+              className="accent-blue-500"
+            />
+            {option.label}
+          </label>
+        ))}
+      </div>
+
+      <p className="text-[10px] text-slate-500">
+        Recording format: <span className="font-mono text-slate-400">{recorderFormat ?? 'browser default'}</span>
+      </p>
+    </div>
+  );
+};
+
+export default InputSettingsPanel;
@@ -0,0 +1,135 @@
+
+import React from 'react';
+import { Scene, DubbingPerformance, LineMix } from '../types';
+import { getPreferredTake } from '../services/takeManager';
+import { getLineMix, MIX_GAIN_RANGE_DB, MIX_NUDGE_SECONDS } from '../services/mixdown';
+import { WavBitDepth } from '../services/wav';
+
+interface Props {
+  scene: Scene;
+  takes: DubbingPerformance[];
+  includeReferences: boolean;
+  bitDepth: WavBitDepth;
+  // Set while a mix is being rendered.
+  busy: boolean;
+  disabled?: boolean;
+  onChangeLine: (lineId: string, patch: Partial<LineMix>) => void;
+  onToggleReferences: (include: boolean) => void;
+  onBitDepth: (bitDepth: WavBitDepth) => void;
+  onPreview: () => void;
+  onExportMix: () => void;
+  onExportStems: () => void;
+}
+
+const formatOffset = (offset: number) => `${offset > 0 ? '+' : ''}${offset.toFixed(2)}s`;
+
+const MixdownPanel: React.FC<Props> = ({
+  scene,
+  takes,
+  includeReferences,
+  bitDepth,
+  busy,
+  disabled,
+  onChangeLine,
+  onToggleReferences,
+  onBitDepth,
+  onPreview,
+  onExportMix,
+  onExportStems
+}) => {
+  const locked = disabled || busy;
+  const nudge = (lineId: string, mix: LineMix, direction: number) =>
+    onChangeLine(lineId, { offset: Math.round((mix.offset + direction * MIX_NUDGE_SECONDS) * 100) / 100 });
+
+  return (
+    <div className="space-y-3">
+      <ul className="space-y-2 max-h-64 overflow-y-auto pr-1 custom-scrollbar">
+        {scene.dialogue.map((line, index) => {
+          const take = getPreferredTake(takes, line.id);
+          const mix = getLineMix(scene, line.id);
+          return (
+            <li key={line.id} className="p-2 bg-slate-950/40 rounded-xl border border-slate-800 space-y-1">
+              <div className="flex items-center gap-2 text-[10px]">
+                <span className="text-slate-600 font-mono">{index + 1}</span>
+                <span className="font-black text-blue-500 uppercase tracking-[0.2em] truncate">{line.character}</span>
+                <span className="flex-1"></span>
+                <span className={take ? 'text-green-400' : includeReferences ? 'text-slate-400' : 'text-slate-600'}>
+                  {take ? `Take ${take.takeNumber}` : includeReferences ? 'Reference' : 'Silent'}
+                </span>
+              </div>
+              <div className="flex items-center gap-2 text-[10px] font-mono text-slate-400">
+                <input
+                  type="range"
+                  min={-MIX_GAIN_RANGE_DB}
+                  max={MIX_GAIN_RANGE_DB}
+                  step={1}
+                  value={mix.gainDb}
+                  disabled={locked}
+                  onChange={(e) => onChangeLine(line.id, { gainDb: Number(e.target.value) })}
+                  onDoubleClick={() => onChangeLine(line.id, { gainDb: 0 })}
+                  title="Gain (double-click to reset)"
+                  className="flex-1 accent-blue-500"
+                />
+                <span className="w-12 text-right">{mix.gainDb > 0 ? '+' : ''}{mix.gainDb} dB</span>
+                <button
+                  onClick={() => nudge(line.id, mix, -1)}
+                  disabled={locked}
+                  title={`Move ${MIX_NUDGE_SECONDS}s earlier`}
+                  className="w-5 h-5 rounded bg-slate-800/50 hover:bg-blue-600 hover:text-white transition-all disabled:opacity-40"
+                ><i className="fas fa-caret-left"></i></button>
+                <button
+                  onClick={() => onChangeLine(line.id, { offset: 0 })}
+                  disabled={locked}
+                  title="Reset offset"
+                  className="w-14 text-center hover:text-white disabled:opacity-40"
+                >{formatOffset(mix.offset)}</button>
+                <button
+                  onClick={() => nudge(line.id, mix, 1)}
+                  disabled={locked}
+                  title={`Move ${MIX_NUDGE_SECONDS}s later`}
+                  className="w-5 h-5 rounded bg-slate-800/50 hover:bg-blue-600 hover:text-white transition-all disabled:opacity-40"
+                ><i className="fas fa-caret-right"></i></button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex items-center gap-4 text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input type="checkbox" checked={includeReferences} disabled={locked} onChange={(e) => onToggleReferences(e.target.checked)} className="accent-blue-500" />
+          Reference for undubbed lines
+        </label>
+        <select
+          value={bitDepth}
+          disabled={locked}
+          onChange={(e) => onBitDepth(Number(e.target.value) as WavBitDepth)}
+          className="bg-slate-950/50 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-300 appearance-none cursor-pointer"
+        >
+          <option value={16}>16-bit</option>
+          <option value={24}>24-bit</option>
+        </select>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={onPreview}
+          disabled={locked}
+          className="flex-1 py-2 rounded-xl text-xs font-bold bg-green-600/10 text-green-400 hover:bg-green-600 hover:text-white transition-all disabled:opacity-40"
+        ><i className={`fas ${busy ? 'fa-spinner fa-spin' : 'fa-play'} mr-1`}></i> Preview</button>
+        <button
+          onClick={onExportMix}
+          disabled={locked}
+          className="flex-1 py-2 rounded-xl text-xs font-bold bg-blue-600 text-white hover:bg-blue-500 transition-all disabled:opacity-40"
+        ><i className="fas fa-file-audio mr-1"></i> Mix WAV</button>
+        <button
+          onClick={onExportStems}
+          disabled={locked}
+          className="flex-1 py-2 rounded-xl text-xs font-bold bg-slate-800/50 border border-slate-700 text-slate-300 hover:bg-blue-600 hover:text-white transition-all disabled:opacity-40"
+        ><i className="fas fa-layer-group mr-1"></i> Stems</button>
+      </div>
+    </div>
+  );
+};
+
+export default MixdownPanel;
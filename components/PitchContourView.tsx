@@ -0,0 +1,68 @@
+
+import React from 'react';
+import { PitchComparison, PitchContour } from '../types';
+import { CONTOUR_POINTS, ENERGY_FLOOR_DB, pitchGuidance } from '../services/pitchAnalysis';
+
+interface Props {
+  comparison: PitchComparison;
+  takeNumber: number;
+  emotion: string;
+  language: string;
+}
+
+const WIDTH = 400;
+const HEIGHT = 120;
+// Half the drawn pitch span, in semitones either side of the median.
+const PITCH_SPAN = 12;
+
+const x = (point: number) => ((point + 0.5) / CONTOUR_POINTS) * WIDTH;
+const pitchY = (semitones: number) =>
+  HEIGHT / 2 - (Math.max(-PITCH_SPAN, Math.min(PITCH_SPAN, semitones)) / PITCH_SPAN) * (HEIGHT / 2 - 4);
+
+// One path per voiced run, so unvoiced gaps stay gaps.
+const pitchPath = (contour: PitchContour) =>
+  contour.pitch.reduce((path, semitones, point) => {
+    if (semitones === null) return path;
+    const joined = point > 0 && contour.pitch[point - 1] !== null;
+    return `${path}${joined ? 'L' : 'M'}${x(point).toFixed(1)},${pitchY(semitones).toFixed(1)} `;
+  }, '');
+
+const energyPath = (contour: PitchContour) => {
+  const points = contour.energy.map((db, point) => `L${x(point).toFixed(1)},${(HEIGHT * (db / ENERGY_FLOOR_DB)).toFixed(1)}`);
+  return `M0,${HEIGHT} ${points.join(' ')} L${WIDTH},${HEIGHT} Z`;
+};
+
+const scoreColor = (score: number) => score >= 75 ? 'text-green-400' : score >= 50 ? 'text-amber-400' : 'text-red-400';
+
+const PitchContourView: React.FC<Props> = ({ comparison, takeNumber, emotion, language }) => (
+  <div className="p-4 bg-slate-950/40 border border-slate-800 rounded-xl space-y-3">
+    <div className="flex items-center justify-between">
+      <span className="text-[10px] font-bold text-blue-400 uppercase tracking-[0.2em]">Intonation &middot; Take {takeNumber}</span>
+      <div className="flex gap-3 text-[10px] font-bold uppercase tracking-widest text-slate-500">
+        <span>Melody <span className={`font-mono ${comparison.intonation === null ? 'text-slate-500' : scoreColor(comparison.intonation)}`}>{comparison.intonation ?? '–'}</span></span>
+        <span>Emphasis <span className={`font-mono ${scoreColor(comparison.emphasis)}`}>{comparison.emphasis}</span></span>
+      </div>
+    </div>
+
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-28 rounded-lg bg-slate-900/50">
+      <path d={energyPath(comparison.reference)} className="fill-blue-500/10" />
+      <path d={energyPath(comparison.take)} className="fill-green-500/10" />
+      <line x1={0} x2={WIDTH} y1={HEIGHT / 2} y2={HEIGHT / 2} className="stroke-slate-700" strokeDasharray="4 4" />
+      <path d={pitchPath(comparison.reference)} fill="none" strokeWidth={2} className="stroke-blue-400" vectorEffect="non-scaling-stroke" />
+      <path d={pitchPath(comparison.take)} fill="none" strokeWidth={2} className="stroke-green-400" vectorEffect="non-scaling-stroke" />
+    </svg>
+    <div className="flex gap-4 text-[9px] font-bold uppercase tracking-widest text-slate-500">
+      <span><span className="inline-block w-3 h-0.5 bg-blue-400 align-middle mr-1"></span>Reference</span>
+      <span><span className="inline-block w-3 h-0.5 bg-green-400 align-middle mr-1"></span>Your take</span>
+      <span className="ml-auto normal-case tracking-normal font-normal">Pitch in semitones from each voice's centre; shading is loudness.</span>
+    </div>
+
+    <ul className="space-y-1">
+      {pitchGuidance(comparison, emotion, language).map(note => (
+        <li key={note} className="text-[11px] text-slate-300 leading-snug"><i className="fas fa-music text-blue-400 mr-2"></i>{note}</li>
+      ))}
+    </ul>
+  </div>
+);
+
+export default PitchContourView;
@@ -0,0 +1,59 @@
+
+import React, { useEffect, useState } from 'react';
+import { PlaybackState, subscribe, getPlaybackState, resume, stop, seek, setPlaybackRate } from '../services/playbackEngine';
+
+const RATES = [0.5, 0.75, 1, 1.25];
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+const PlaybackBar: React.FC = () => {
+  const [state, setState] = useState<PlaybackState>(getPlaybackState());
+
+  useEffect(() => subscribe(setState), []);
+
+  // The engine only notifies on transport changes, so poll the position while playing.
+  useEffect(() => {
+    if (!state.playing) return;
+    let frame: number;
+    const tick = () => {
+      setState(getPlaybackState());
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [state.playing]);
+
+  if (!state.label) return null;
+
+  return (
+    <div className="flex items-center gap-3 p-2 mb-4 bg-slate-950/50 rounded-xl border border-slate-800">
+      <button
+        onClick={state.playing ? stop : resume}
+        className="w-8 h-8 rounded-full flex items-center justify-center bg-blue-600/10 text-blue-400 hover:bg-blue-600 hover:text-white transition-all"
+      >
+        <i className={`fas ${state.playing ? 'fa-stop' : 'fa-play'} text-[10px]`}></i>
+      </button>
+      <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest truncate max-w-[10rem]">{state.label}</span>
+      <input
+        type="range"
+        min={0}
+        max={state.duration || 0}
+        step={0.01}
+        value={state.position}
+        onChange={(e) => seek(Number(e.target.value))}
+        className="flex-1 accent-blue-500"
+      />
+      <span className="text-[10px] font-mono text-slate-500 w-20 text-right">{formatTime(state.position)} / {formatTime(state.duration)}</span>
+      <select
+        value={state.rate}
+        onChange={(e) => setPlaybackRate(Number(e.target.value))}
+        title="Playback speed"
+        className="bg-slate-950/50 border border-slate-700 rounded-lg px-1 py-0.5 text-[10px] font-mono appearance-none cursor-pointer"
+      >
+        {RATES.map(r => <option key={r} value={r}>{r}x</option>)}
+      </select>
+    </div>
+  );
+};
+
+export default PlaybackBar;
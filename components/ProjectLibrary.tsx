@@ -0,0 +1,74 @@
+
+import React, { useState } from 'react';
+import { ProjectSummary } from '../types';
+
+interface Props {
+  projects: ProjectSummary[];
+  activeProjectId: string | null;
+  disabled?: boolean;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const ProjectLibrary: React.FC<Props> = ({ projects, activeProjectId, disabled, onOpen, onRename, onDuplicate, onDelete }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  if (projects.length === 0) {
+    return <p className="text-xs text-slate-500 italic">Saved productions will appear here.</p>;
+  }
+
+  return (
+    <ul className="space-y-2 max-h-72 overflow-y-auto custom-scrollbar pr-1">
+      {projects.map(project => (
+        <li
+          key={project.id}
+          className={`p-3 rounded-xl border transition-all ${project.id === activeProjectId ? 'border-blue-500/60 bg-blue-500/5' : 'border-slate-800 bg-slate-950/40'}`}
+        >
+          {editingId === project.id ? (
+            <input
+              autoFocus
+              value={draftName}
+              onChange={(e) => setDraftName(e.target.value)}
+              onBlur={commitRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename();
+                if (e.key === 'Escape') setEditingId(null);
+              }}
+              className="w-full bg-slate-950/50 border border-slate-700 rounded-lg px-2 py-1 text-sm"
+            />
+          ) : (
+            <button
+              disabled={disabled}
+              onClick={() => onOpen(project.id)}
+              className="w-full text-left disabled:opacity-50"
+            >
+              <p className="text-sm font-bold text-slate-200 truncate">{project.name}</p>
+              <p className="text-[10px] text-slate-500 uppercase tracking-widest">
+                {project.language} &middot; {project.lineCount} lines &middot; {project.takeCount} takes &middot; {new Date(project.updatedAt).toLocaleDateString()}
+              </p>
+            </button>
+          )}
+          <div className="flex gap-3 mt-2 text-[10px] font-bold uppercase tracking-widest text-slate-500">
+            <button onClick={() => { setEditingId(project.id); setDraftName(project.name); }} className="hover:text-blue-400">Rename</button>
+            <button onClick={() => onDuplicate(project.id)} className="hover:text-blue-400">Duplicate</button>
+            <button
+              onClick={() => confirm(`Delete "${project.name}"? This cannot be undone.`) && onDelete(project.id)}
+              disabled={disabled && project.id === activeProjectId}
+              className="hover:text-red-400 disabled:opacity-50"
+            >Delete</button>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default ProjectLibrary;
@@ -0,0 +1,71 @@
+
+import React, { useEffect, useState } from 'react';
+import { RenderJob, RenderJobStatus, isJobActive } from '../services/renderJobs';
+import { ERROR_ADVICE } from '../services/errors';
+
+interface Props {
+  jobs: RenderJob[];
+  onCancel: (jobId: string) => void;
+  onDismiss: (jobId: string) => void;
+}
+
+const STATUS_LABELS: Record<RenderJobStatus, { text: string; className: string }> = {
+  starting: { text: 'Starting', className: 'text-blue-400' },
+  running: { text: 'Rendering', className: 'text-blue-400' },
+  succeeded: { text: 'Done', className: 'text-green-400' },
+  failed: { text: 'Failed', className: 'text-red-400' },
+  cancelled: { text: 'Cancelled', className: 'text-slate-500' },
+  timedOut: { text: 'Timed out', className: 'text-amber-400' }
+};
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const RenderJobList: React.FC<Props> = ({ jobs, onCancel, onDismiss }) => {
+  const [now, setNow] = useState(Date.now());
+  const anyActive = jobs.some(isJobActive);
+
+  // Only tick while something is rendering.
+  useEffect(() => {
+    if (!anyActive) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [anyActive]);
+
+  return (
+    <ul className="space-y-2">
+      {jobs.map(job => {
+        const active = isJobActive(job);
+        const status = STATUS_LABELS[job.status];
+        return (
+          <li key={job.id} className="flex items-center gap-3 p-3 bg-slate-950/40 rounded-xl border border-slate-800">
+            <i className={`fas ${job.kind === 'lipSync' ? 'fa-sync-alt' : 'fa-film'} text-xs ${active ? 'text-blue-400 animate-pulse' : 'text-slate-600'}`}></i>
+            <div className="flex-1 min-w-0">
+              <p className="text-xs font-bold text-slate-200 truncate">{job.label}</p>
+              <p className="text-[10px] font-mono uppercase tracking-widest">
+                <span className={status.className}>{status.text}</span>
+                <span className="text-slate-500"> &middot; {formatElapsed((job.finishedAt ?? now) - job.startedAt)}</span>
+              </p>
+              {job.error && (
+                <p className="text-[10px] text-red-400/80 mt-1 line-clamp-3">
+                  {job.errorKind ? `${ERROR_ADVICE[job.errorKind].title}. ${ERROR_ADVICE[job.errorKind].action}` : job.error}
+                </p>
+              )}
+            </div>
+            <button
+              onClick={() => active ? onCancel(job.id) : onDismiss(job.id)}
+              title={active ? 'Cancel render' : 'Dismiss'}
+              className="w-8 h-8 rounded-full bg-slate-800/50 text-slate-500 hover:bg-red-600 hover:text-white transition-all flex items-center justify-center"
+            >
+              <i className={`fas ${active ? 'fa-stop' : 'fa-xmark'} text-[10px]`}></i>
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default RenderJobList;
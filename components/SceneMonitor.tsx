@@ -0,0 +1,78 @@
+
+import React, { useEffect, useRef } from 'react';
+import { getPlaybackState, subscribe } from '../services/playbackEngine';
+
+interface Props {
+  videoUrl?: string;
+  imageUrl?: string;
+  // While the playback engine plays audio with this id, the video follows its transport.
+  syncPlaybackId: string;
+}
+
+// Larger drift than this is corrected by seeking; smaller is left alone to avoid stutter.
+const MAX_DRIFT_SECONDS = 0.15;
+
+const SceneMonitor: React.FC<Props> = ({ videoUrl, imageUrl, syncPlaybackId }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    let frame: number | undefined;
+    let following = false;
+
+    // Videos shorter than the dub loop under it.
+    const follow = () => {
+      const state = getPlaybackState();
+      const synced = state.id === syncPlaybackId;
+      if (!synced) {
+        if (following) {
+          following = false;
+          video.loop = true;
+          video.playbackRate = 1;
+          video.play().catch(() => {});
+        }
+        return;
+      }
+      following = true;
+      video.loop = false;
+      video.playbackRate = state.rate;
+      const target = video.duration ? state.position % video.duration : state.position;
+      if (Math.abs(video.currentTime - target) > MAX_DRIFT_SECONDS) video.currentTime = target;
+      if (state.playing && video.paused) video.play().catch(() => {});
+      if (!state.playing && !video.paused) video.pause();
+    };
+
+    const tick = () => {
+      follow();
+      frame = getPlaybackState().playing ? requestAnimationFrame(tick) : undefined;
+    };
+
+    const unsubscribe = subscribe(() => {
+      if (frame === undefined) tick();
+    });
+    return () => {
+      unsubscribe();
+      if (frame !== undefined) cancelAnimationFrame(frame);
+    };
+  }, [syncPlaybackId, videoUrl]);
+
+  if (videoUrl) {
+    return (
+      <video
+        ref={videoRef}
+        src={videoUrl}
+        autoPlay loop muted playsInline
+        className="w-full h-full object-cover"
+      />
+    );
+  }
+  if (imageUrl) return <img src={imageUrl} className="w-full h-full object-cover" alt="Scene Concept" />;
+  return (
+    <div className="w-full h-full flex items-center justify-center bg-slate-900">
+      <i className="fas fa-image text-4xl text-slate-700"></i>
+    </div>
+  );
+};
+
+export default SceneMonitor;
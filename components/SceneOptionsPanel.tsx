@@ -0,0 +1,137 @@
+
+import React from 'react';
+import {
+  SceneOptions,
+  SceneDifficulty,
+  LineLength,
+  GENRE_PRESETS,
+  DIFFICULTY_LEVELS,
+  LINE_LENGTHS,
+  MIN_LINES,
+  MAX_LINES,
+  MIN_CHARACTERS,
+  MAX_CHARACTERS,
+  validateSceneOptions
+} from '../services/sceneOptions';
+
+interface Props {
+  options: SceneOptions;
+  disabled?: boolean;
+  onChange: (options: SceneOptions) => void;
+}
+
+const selectClass = 'w-full bg-slate-950/50 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-300 outline-none disabled:opacity-30';
+const labelClass = 'flex flex-col gap-1 text-[10px] font-bold text-slate-500 uppercase tracking-widest';
+
+const SceneOptionsPanel: React.FC<Props> = ({ options, disabled, onChange }) => {
+  const problems = validateSceneOptions(options);
+  const set = (patch: Partial<SceneOptions>) => onChange({ ...options, ...patch });
+  const setCharacter = (index: number, patch: Partial<SceneOptions['characters'][number]>) =>
+    set({ characters: options.characters.map((character, i) => (i === index ? { ...character, ...patch } : character)) });
+
+  return (
+    <div className="space-y-3 p-3 bg-slate-950/30 rounded-xl border border-slate-800">
+      <div className="grid grid-cols-2 gap-3">
+        <label className={labelClass}>
+          Genre
+          <select value={options.genre} onChange={e => set({ genre: e.target.value })} disabled={disabled} className={selectClass}>
+            {GENRE_PRESETS.map(preset => <option key={preset.id} value={preset.id}>{preset.label}</option>)}
+          </select>
+        </label>
+        <label className={labelClass}>
+          Difficulty
+          <select value={options.difficulty} onChange={e => set({ difficulty: e.target.value as SceneDifficulty })} disabled={disabled} className={selectClass}>
+            {(Object.keys(DIFFICULTY_LEVELS) as SceneDifficulty[]).map(level => (
+              <option key={level} value={level}>{DIFFICULTY_LEVELS[level].label}</option>
+            ))}
+          </select>
+        </label>
+        <label className={labelClass}>
+          Lines
+          <input
+            type="number"
+            min={MIN_LINES}
+            max={MAX_LINES}
+            value={options.lineCount}
+            onChange={e => set({ lineCount: Number(e.target.value) })}
+            disabled={disabled}
+            className={selectClass}
+          />
+        </label>
+        <label className={labelClass}>
+          Characters
+          <input
+            type="number"
+            min={MIN_CHARACTERS}
+            max={MAX_CHARACTERS}
+            value={options.characterCount}
+            onChange={e => set({ characterCount: Number(e.target.value) })}
+            disabled={disabled}
+            className={selectClass}
+          />
+        </label>
+        <label className={`${labelClass} col-span-2`}>
+          Line length
+          <div className="flex bg-slate-950/50 rounded-lg p-0.5 border border-slate-700">
+            {(Object.keys(LINE_LENGTHS) as LineLength[]).map(length => (
+              <button
+                key={length}
+                onClick={() => set({ lineLength: length })}
+                disabled={disabled}
+                title={`About ${LINE_LENGTHS[length].minSyllables}-${LINE_LENGTHS[length].maxSyllables} syllables`}
+                className={`flex-1 py-1 rounded-md text-[10px] font-black tracking-widest uppercase transition-all ${options.lineLength === length ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-white'}`}
+              >{LINE_LENGTHS[length].label}</button>
+            ))}
+          </div>
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Named characters</span>
+        {options.characters.map((character, index) => (
+          <div key={index} className="flex gap-2">
+            <input
+              value={character.name}
+              onChange={e => setCharacter(index, { name: e.target.value })}
+              placeholder="Name"
+              disabled={disabled}
+              className="w-24 bg-slate-950/50 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-300 outline-none"
+            />
+            <input
+              value={character.description}
+              onChange={e => setCharacter(index, { description: e.target.value })}
+              placeholder="Short description"
+              disabled={disabled}
+              className="flex-1 bg-slate-950/50 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-300 outline-none"
+            />
+            <button
+              onClick={() => set({ characters: options.characters.filter((_, i) => i !== index) })}
+              disabled={disabled}
+              className="w-7 h-7 rounded-full flex items-center justify-center text-slate-500 hover:bg-red-600 hover:text-white transition-all"
+            ><i className="fas fa-times text-[10px]"></i></button>
+          </div>
+        ))}
+        {options.characters.length < MAX_CHARACTERS && (
+          <button
+            onClick={() => set({
+              characters: [...options.characters, { name: '', description: '' }],
+              characterCount: Math.max(options.characterCount, options.characters.length + 1)
+            })}
+            disabled={disabled}
+            className="text-[10px] font-black tracking-widest uppercase text-slate-500 hover:text-white transition-all disabled:opacity-30"
+          ><i className="fas fa-plus mr-1"></i> Add character</button>
+        )}
+      </div>
+
+      {problems.length > 0 && (
+        <ul className="space-y-1">
+          {problems.map(problem => (
+            <li key={problem} className="text-[11px] text-amber-400"><i className="fas fa-triangle-exclamation mr-2"></i>{problem}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SceneOptionsPanel;
@@ -0,0 +1,73 @@
+
+import React from 'react';
+import { DirectorFeedback, DubbingPerformance } from '../types';
+import { FEEDBACK_CATEGORIES, MAX_SCORE, overallScore, scoredTakes } from '../services/feedback';
+
+interface Props {
+  feedback: DirectorFeedback;
+  takeNumber: number;
+  // All takes of the same line, for the progress strip.
+  lineTakes: DubbingPerformance[];
+}
+
+const scoreColor = (score: number) =>
+  score >= 8 ? 'bg-green-500' : score >= 5 ? 'bg-amber-500' : 'bg-red-500';
+
+const ScoreCard: React.FC<Props> = ({ feedback, takeNumber, lineTakes }) => {
+  const overall = overallScore(feedback);
+  const history = scoredTakes(lineTakes);
+
+  return (
+    <div className="p-4 bg-blue-500/5 border border-blue-500/10 rounded-xl space-y-4">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-bold text-blue-400 uppercase tracking-[0.2em]">Director's Review &middot; Take {takeNumber}</span>
+        {overall !== null && (
+          <span className="text-lg font-black text-slate-100">{overall.toFixed(1)}<span className="text-[10px] text-slate-500">/{MAX_SCORE}</span></span>
+        )}
+      </div>
+
+      {feedback.scores && (
+        <div className="space-y-3">
+          {FEEDBACK_CATEGORIES.map(({ key, label }) => {
+            const { score, rationale } = feedback.scores![key];
+            return (
+              <div key={key}>
+                <div className="flex items-center justify-between text-[10px] font-bold uppercase tracking-widest text-slate-400 mb-1">
+                  <span>{label}</span>
+                  <span className="font-mono text-slate-200">{score}</span>
+                </div>
+                <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                  <div className={`h-full ${scoreColor(score)}`} style={{ width: `${(score / MAX_SCORE) * 100}%` }}></div>
+                </div>
+                {rationale && <p className="text-[11px] text-slate-500 mt-1 leading-snug">{rationale}</p>}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {history.length > 1 && (
+        <div>
+          <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest block mb-2">Progress</span>
+          <div className="flex items-end gap-1 h-12">
+            {history.map(({ take, overall: value }) => (
+              <div
+                key={take.id}
+                title={`Take ${take.takeNumber} · ${new Date(take.timestamp).toLocaleString()} · ${value.toFixed(1)}`}
+                className={`flex-1 rounded-t ${scoreColor(value)} ${take.takeNumber === takeNumber ? 'opacity-100' : 'opacity-40'}`}
+                style={{ height: `${(value / MAX_SCORE) * 100}%` }}
+              ></div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {feedback.lineNote && (
+        <p className="text-sm text-slate-200 leading-relaxed"><i className="fas fa-pen-nib text-blue-400 mr-2"></i>{feedback.lineNote}</p>
+      )}
+      <p className="text-sm italic text-slate-300 leading-relaxed">"{feedback.summary}"</p>
+    </div>
+  );
+};
+
+export default ScoreCard;
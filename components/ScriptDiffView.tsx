@@ -0,0 +1,46 @@
+
+import React from 'react';
+import { ScriptDiff } from '../services/scriptDiff';
+
+interface Props {
+  diff: ScriptDiff;
+}
+
+const ScriptDiffView: React.FC<Props> = ({ diff }) => {
+  const joiner = diff.unit === 'character' ? '' : ' ';
+  const rateLabel = diff.unit === 'character' ? 'CER' : 'WER';
+  const rate = Math.round(diff.errorRate * 100);
+
+  return (
+    <div className="mt-1 flex items-start gap-2">
+      <span
+        title={`${diff.counts.substitute} substituted, ${diff.counts.missed} missed, ${diff.counts.added} added`}
+        className={`shrink-0 text-[9px] px-2 py-0.5 rounded-full font-mono font-bold border ${rate === 0 ? 'bg-green-600/10 text-green-400 border-green-600/20' : rate <= 20 ? 'bg-amber-500/10 text-amber-400 border-amber-500/20' : 'bg-red-500/10 text-red-400 border-red-500/20'}`}
+      >
+        {rateLabel} {rate}%
+      </span>
+      <p className="text-sm leading-relaxed">
+        {diff.ops.map((op, i) => {
+          const gap = i > 0 ? joiner : '';
+          switch (op.type) {
+            case 'match':
+              return <span key={i} className="text-slate-400">{gap}{op.actual}</span>;
+            case 'substitute':
+              return (
+                <span key={i} title={`Script: ${op.expected}`}>
+                  {gap}<span className="text-amber-400 underline decoration-dotted">{op.actual}</span>
+                  <span className="text-[10px] text-slate-600 line-through ml-0.5">{op.expected}</span>
+                </span>
+              );
+            case 'missed':
+              return <span key={i} title="Missed" className="text-red-400 line-through">{gap}{op.expected}</span>;
+            case 'added':
+              return <span key={i} title="Added" className="text-sky-400">{gap}+{op.actual}</span>;
+          }
+        })}
+      </p>
+    </div>
+  );
+};
+
+export default ScriptDiffView;
@@ -0,0 +1,100 @@
+
+import React, { useState } from 'react';
+import { Scene } from '../types';
+import { parseScript, detectScriptFormat, ScriptFormat, SCRIPT_FORMATS, ScriptParseError } from '../services/scriptImport';
+
+interface Props {
+  language: string;
+  disabled?: boolean;
+  onImport: (scene: Scene, options: { generateImage: boolean }) => void;
+}
+
+const IMPORT_FAILED = "This script could not be imported. Check the format and try again.";
+
+const ScriptImport: React.FC<Props> = ({ language, disabled, onImport }) => {
+  const [source, setSource] = useState('');
+  const [fileName, setFileName] = useState<string | undefined>();
+  const [format, setFormat] = useState<ScriptFormat | 'auto'>('auto');
+  const [generateImage, setGenerateImage] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File) => {
+    try {
+      setSource(await file.text());
+      setFileName(file.name);
+      setError(null);
+    } catch (err: unknown) {
+      console.error("Could not read script file", err);
+      setError(IMPORT_FAILED);
+    }
+  };
+
+  const handleImport = () => {
+    const resolvedFormat = format === 'auto' ? detectScriptFormat(source, fileName) : format;
+    try {
+      const scene = parseScript(source, {
+        format: resolvedFormat,
+        language,
+        fallbackTitle: fileName?.replace(/\.[^.]+$/, '')
+      });
+      setError(null);
+      onImport(scene, { generateImage });
+    } catch (err: unknown) {
+      setError(err instanceof ScriptParseError ? err.message : IMPORT_FAILED);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <textarea
+        value={source}
+        onChange={(e) => { setSource(e.target.value); setFileName(undefined); setError(null); }}
+        placeholder={"MAX (angry): You said you'd be here at eight.\nLENA: I said I'd try."}
+        className="w-full bg-slate-950/50 border border-slate-700 rounded-xl p-3 text-xs font-mono focus:ring-2 focus:ring-blue-500 transition-all min-h-[140px] resize-y"
+      />
+      <div className="flex gap-2">
+        <label className="flex-1 flex items-center justify-center gap-2 p-2 bg-slate-950/30 rounded-xl border border-slate-800 text-xs text-slate-400 cursor-pointer hover:border-blue-500 transition-all">
+          <i className="fas fa-upload"></i>
+          <span className="truncate">{fileName || 'Upload file'}</span>
+          <input
+            type="file"
+            accept=".fountain,.spmd,.srt,.vtt,.txt,text/plain"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) handleFile(file);
+            }}
+          />
+        </label>
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ScriptFormat | 'auto')}
+          className="flex-1 bg-slate-950/50 border border-slate-700 rounded-xl p-2 text-xs appearance-none cursor-pointer"
+        >
+          <option value="auto">Detect format</option>
+          {SCRIPT_FORMATS.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+        </select>
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+        <input type="checkbox" checked={generateImage} onChange={(e) => setGenerateImage(e.target.checked)} className="accent-blue-500" />
+        Generate concept image
+      </label>
+
+      {error && (
+        <p className="text-xs text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg p-2 font-mono">{error}</p>
+      )}
+
+      <button
+        onClick={handleImport}
+        disabled={disabled || !source.trim()}
+        className="w-full bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 text-white font-bold py-4 rounded-xl shadow-lg transition-all active:scale-95"
+      >
+        Import Script
+      </button>
+    </div>
+  );
+};
+
+export default ScriptImport;
@@ -0,0 +1,98 @@
+
+import React from 'react';
+import { DialogueLine } from '../types';
+import { lengthRatio, languageName } from '../services/translation';
+import { diffScript } from '../services/scriptDiff';
+import ScriptDiffView from './ScriptDiffView';
+
+interface Props {
+  line: DialogueLine;
+  language: string;
+  sourceLanguage?: string;
+  isActive: boolean;
+  takeCount: number;
+  // Takes recorded before the line was last edited.
+  staleTakeCount: number;
+  // Transcription of the line's circled or latest take, diffed against the script.
+  transcription?: string;
+  // The text that take was recorded against, when known; a stale take is diffed against this instead.
+  recordedText?: string;
+  onSelect: () => void;
+  onPlayReference: () => void;
+  // Omitted while the script can't be edited, e.g. during a take.
+  editActions?: {
+    onEdit: () => void;
+    onMove: (delta: number) => void;
+    onAddAfter: () => void;
+    onDelete: () => void;
+  };
+}
+
+const actionClass = 'w-7 h-7 rounded-full flex items-center justify-center text-slate-500 hover:bg-slate-800 hover:text-white transition-all';
+
+const ScriptLine: React.FC<Props> = ({ line, language, sourceLanguage, isActive, takeCount, staleTakeCount, transcription, recordedText, onSelect, onPlayReference, editActions }) => {
+  const ratio = sourceLanguage ? lengthRatio(line, language, sourceLanguage) : null;
+  const offLength = ratio !== null && (ratio < 0.7 || ratio > 1.3);
+
+  return (
+    <div
+      onClick={onSelect}
+      className={`group flex flex-col gap-1 border-l-2 pl-4 transition-all cursor-pointer ${isActive ? 'border-l-red-500' : 'border-l-transparent hover:border-l-blue-500'}`}
+    >
+      <div className="flex items-center gap-3">
+        <span className="text-[10px] font-black text-blue-500 uppercase tracking-[0.2em]">{line.character}</span>
+        <span className="text-[9px] px-2 py-0.5 rounded-full bg-slate-800 text-slate-400 uppercase font-bold border border-slate-700">{line.emotion}</span>
+        <button onClick={(e) => { e.stopPropagation(); onPlayReference(); }} className="w-8 h-8 rounded-full flex items-center justify-center bg-slate-800/50 hover:bg-blue-600 transition-all text-slate-500 hover:text-white">
+          <i className="fas fa-volume-up text-[10px]"></i>
+        </button>
+        {takeCount > 0 && (
+          <span className="text-[9px] px-2 py-0.5 rounded-full bg-green-600/10 text-green-400 uppercase font-bold border border-green-600/20">
+            {takeCount} {takeCount === 1 ? 'take' : 'takes'}
+          </span>
+        )}
+        {staleTakeCount > 0 && (
+          <span
+            title="The line changed after these takes were recorded."
+            className="text-[9px] px-2 py-0.5 rounded-full bg-amber-500/10 text-amber-400 uppercase font-bold border border-amber-500/20"
+          >
+            {staleTakeCount} stale
+          </span>
+        )}
+        {offLength && (
+          <span
+            title="Translated line is much longer or shorter than the original and may not fit the picture."
+            className="text-[9px] px-2 py-0.5 rounded-full bg-amber-500/10 text-amber-400 uppercase font-bold border border-amber-500/20"
+          >
+            {Math.round(ratio! * 100)}% length
+          </span>
+        )}
+        {editActions && (
+          <div onClick={(e) => e.stopPropagation()} className="ml-auto flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            <button onClick={editActions.onEdit} title="Edit or rewrite line" className={actionClass}><i className="fas fa-pen text-[10px]"></i></button>
+            <button onClick={() => editActions.onMove(-1)} title="Move up" className={actionClass}><i className="fas fa-arrow-up text-[10px]"></i></button>
+            <button onClick={() => editActions.onMove(1)} title="Move down" className={actionClass}><i className="fas fa-arrow-down text-[10px]"></i></button>
+            <button onClick={editActions.onAddAfter} title="Add line below" className={actionClass}><i className="fas fa-plus text-[10px]"></i></button>
+            <button onClick={editActions.onDelete} title="Delete line" className={`${actionClass} hover:bg-red-600`}><i className="fas fa-trash text-[10px]"></i></button>
+          </div>
+        )}
+      </div>
+      {sourceLanguage && line.sourceText !== undefined ? (
+        <div className="grid grid-cols-2 gap-6">
+          <div>
+            <span className="text-[9px] font-bold text-slate-600 uppercase tracking-widest">{languageName(sourceLanguage)}</span>
+            <p className="text-base text-slate-400">{line.sourceText}</p>
+          </div>
+          <div>
+            <span className="text-[9px] font-bold text-blue-400/70 uppercase tracking-widest">{languageName(language)} &middot; Dub</span>
+            <p className="text-xl font-medium text-slate-100 group-hover:text-white transition-colors">{line.text}</p>
+          </div>
+        </div>
+      ) : (
+        <p className="text-xl font-medium text-slate-100 group-hover:text-white transition-colors">{line.text}</p>
+      )}
+      {transcription !== undefined && <ScriptDiffView diff={diffScript(recordedText ?? line.text, transcription, language)} />}
+    </div>
+  );
+};
+
+export default ScriptLine;
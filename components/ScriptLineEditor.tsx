@@ -0,0 +1,101 @@
+
+import React, { useState } from 'react';
+import { DialogueLine } from '../types';
+import { LinePatch } from '../services/scriptEdit';
+
+interface Props {
+  line: DialogueLine;
+  // Characters already in the scene, offered as suggestions.
+  characters: string[];
+  onSave: (patch: LinePatch) => void;
+  onCancel: () => void;
+  // Applies straight to the script as an undoable edit; an empty
+  // instruction asks for a fresh alternative.
+  onRewrite: (instruction: string) => void;
+}
+
+const REWRITE_PRESETS = ['Shorter', 'Longer', 'Angrier', 'Calmer', 'Funnier', 'More formal'];
+
+const ScriptLineEditor: React.FC<Props> = ({ line, characters, onSave, onCancel, onRewrite }) => {
+  const [character, setCharacter] = useState(line.character);
+  const [text, setText] = useState(line.text);
+  const [emotion, setEmotion] = useState(line.emotion);
+  const [instruction, setInstruction] = useState('');
+
+  const valid = character.trim() !== '' && text.trim() !== '' && emotion.trim() !== '';
+  const save = () => {
+    if (valid) onSave({ character: character.trim(), text: text.trim(), emotion: emotion.trim() });
+  };
+
+  return (
+    <div
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') onCancel();
+        if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) save();
+      }}
+      className="flex flex-col gap-3 border-l-2 border-l-blue-500 pl-4 py-2"
+    >
+      <div className="flex items-center gap-3">
+        <input
+          value={character}
+          onChange={e => setCharacter(e.target.value)}
+          list={`characters-${line.id}`}
+          placeholder="Character"
+          className="w-40 bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-[10px] font-black text-blue-400 uppercase tracking-[0.2em] outline-none focus:border-blue-500"
+        />
+        <datalist id={`characters-${line.id}`}>
+          {characters.map(name => <option key={name} value={name} />)}
+        </datalist>
+        <input
+          value={emotion}
+          onChange={e => setEmotion(e.target.value)}
+          placeholder="Emotion"
+          className="w-32 bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-[10px] text-slate-300 uppercase font-bold outline-none focus:border-blue-500"
+        />
+      </div>
+      <textarea
+        value={text}
+        onChange={e => setText(e.target.value)}
+        rows={2}
+        autoFocus
+        className="w-full bg-slate-950 border border-slate-700 rounded-xl px-3 py-2 text-lg text-slate-100 outline-none focus:border-blue-500 resize-none"
+      />
+
+      <div className="flex flex-wrap items-center gap-2">
+        <i className="fas fa-wand-magic-sparkles text-[10px] text-blue-400"></i>
+        {REWRITE_PRESETS.map(preset => (
+          <button
+            key={preset}
+            onClick={() => onRewrite(preset.toLowerCase())}
+            className="px-2 py-0.5 rounded-full text-[9px] font-bold uppercase tracking-widest bg-slate-800 border border-slate-700 text-slate-400 hover:bg-blue-600 hover:text-white transition-all disabled:opacity-30"
+          >{preset}</button>
+        ))}
+        <input
+          value={instruction}
+          onChange={e => setInstruction(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter' && !e.metaKey && !e.ctrlKey) onRewrite(instruction); }}
+          placeholder="Or describe the change..."
+          className="flex-1 min-w-[10rem] bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-300 outline-none focus:border-blue-500"
+        />
+        <button
+          onClick={() => onRewrite(instruction)}
+          title={instruction.trim() ? 'Rewrite with this direction' : 'Write a fresh alternative'}
+          className="px-3 py-1 rounded-lg text-[10px] font-black tracking-widest uppercase bg-slate-800/50 border border-slate-700 text-slate-400 hover:bg-blue-600 hover:text-white transition-all disabled:opacity-30"
+        >
+          {instruction.trim() ? 'Rewrite' : 'Regenerate'}
+        </button>
+      </div>
+
+      <div className="flex items-center justify-end gap-2">
+        <button onClick={onCancel} className="px-3 py-1 rounded-lg text-[10px] font-black tracking-widest uppercase text-slate-500 hover:text-white transition-all">Cancel</button>
+        <button
+          onClick={save}
+          disabled={!valid}
+          className="px-3 py-1 rounded-lg text-[10px] font-black tracking-widest uppercase bg-blue-600 text-white hover:bg-blue-500 transition-all disabled:opacity-30"
+        >Save</button>
+      </div>
+    </div>
+  );
+};
+
+export default ScriptLineEditor;
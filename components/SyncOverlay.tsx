@@ -0,0 +1,63 @@
+
+import React from 'react';
+import { SpeechSegment, SyncAnalysis } from '../types';
+import { syncFindings, SYNC_TOLERANCE_SECONDS } from '../services/syncAnalysis';
+
+interface Props {
+  sync: SyncAnalysis;
+  takeNumber: number;
+}
+
+// Breathing room either side of the drawn timeline, in seconds.
+const PADDING_SECONDS = 0.25;
+
+const SyncOverlay: React.FC<Props> = ({ sync, takeNumber }) => {
+  // Everything is drawn relative to the start of the target.
+  const takeSegments = sync.segments.map(segment => ({ start: segment.start - sync.anchor, end: segment.end - sync.anchor }));
+  const targetStart = sync.targetSegments[0].start;
+  const targetEnd = sync.targetSegments[sync.targetSegments.length - 1].end;
+  const takeEnd = takeSegments[takeSegments.length - 1].end;
+  const from = Math.min(0, takeSegments[0].start) - PADDING_SECONDS;
+  const to = Math.max(sync.targetDuration, takeEnd) + PADDING_SECONDS;
+  const position = (time: number) => `${((time - from) / (to - from)) * 100}%`;
+  const width = (segment: SpeechSegment) => `${((segment.end - segment.start) / (to - from)) * 100}%`;
+  const overrun = sync.overrun > SYNC_TOLERANCE_SECONDS ? { start: targetEnd, end: takeEnd } : null;
+
+  const lane = (label: string, segments: SpeechSegment[], color: string) => (
+    <div className="flex items-center gap-2">
+      <span className="w-12 text-[9px] font-bold text-slate-500 uppercase tracking-widest">{label}</span>
+      <div className="relative flex-1 h-4 bg-slate-900/60 rounded">
+        {segments.map((segment, i) => (
+          <div key={i} className={`absolute inset-y-0.5 rounded-sm ${color}`} style={{ left: position(segment.start), width: width(segment) }}></div>
+        ))}
+        {label === 'Take' && overrun && (
+          <div className="absolute inset-y-0 bg-red-500/40 rounded-sm" style={{ left: position(overrun.start), width: width(overrun) }} title="Overrun"></div>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="p-4 bg-slate-950/40 border border-slate-800 rounded-xl space-y-3">
+      <span className="text-[10px] font-bold text-blue-400 uppercase tracking-[0.2em]">Sync &middot; Take {takeNumber}</span>
+      <div className="relative space-y-1">
+        {lane('Target', sync.targetSegments, 'bg-blue-500/70')}
+        {lane('Take', takeSegments, 'bg-green-500/80')}
+        <div className="absolute inset-y-0 left-14 right-0 pointer-events-none">
+          <div className="absolute inset-y-0 w-px bg-slate-300/60" style={{ left: position(targetStart) }}></div>
+          <div className="absolute inset-y-0 w-px bg-slate-300/60" style={{ left: position(targetEnd) }}></div>
+        </div>
+      </div>
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-[11px]">
+        {syncFindings(sync).map(finding => (
+          <React.Fragment key={finding.label}>
+            <dt className="text-slate-500 font-bold uppercase tracking-widest text-[9px] self-center">{finding.label}</dt>
+            <dd className={finding.ok ? 'text-slate-300' : 'text-amber-400'}>{finding.value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+    </div>
+  );
+};
+
+export default SyncOverlay;
@@ -0,0 +1,216 @@
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { DubbingPerformance, NormalizeMode, TakeEdit } from '../types';
+import { decodeBlob, play } from '../services/playbackEngine';
+import {
+  computePeaks,
+  mixToMono,
+  detectSpeechBounds,
+  defaultTakeEdit,
+  renderTakeEdit,
+  DEFAULT_GATE_DB,
+  PEAK_TARGET_DB,
+  LOUDNESS_TARGET_DB
+} from '../services/audioEdit';
+
+interface Props {
+  take: DubbingPerformance;
+  onSave: (edit: TakeEdit, rendered: AudioBuffer) => void;
+  onClose: () => void;
+}
+
+const WAVEFORM_BINS = 160;
+// Handles can't cross or collapse the selection below this.
+const MIN_SELECTION_SECONDS = 0.05;
+
+const NORMALIZE_OPTIONS: { value: NormalizeMode; label: string }[] = [
+  { value: 'none', label: 'No normalization' },
+  { value: 'peak', label: `Peak ${PEAK_TARGET_DB} dBFS` },
+  { value: 'loudness', label: `Loudness ${LOUDNESS_TARGET_DB} dB RMS` }
+];
+
+const TakeEditor: React.FC<Props> = ({ take, onSave, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [source, setSource] = useState<AudioBuffer | null>(null);
+  const [edit, setEdit] = useState<TakeEdit | null>(null);
+  const [dragging, setDragging] = useState<'in' | 'out' | null>(null);
+  const [rendering, setRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSource(null);
+    decodeBlob(take.audioBlob).then(buffer => {
+      if (cancelled) return;
+      setSource(buffer);
+      setEdit(defaultTakeEdit(buffer.duration));
+    }, err => {
+      console.error("Could not decode take for editing", err);
+      if (!cancelled) setError("This take's audio could not be decoded.");
+    });
+    return () => { cancelled = true; };
+  }, [take.audioBlob]);
+
+  const samples = useMemo(() => source ? mixToMono(source) : null, [source]);
+  const peaks = useMemo(() => samples ? computePeaks(samples, WAVEFORM_BINS) : null, [samples]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !peaks || !source || !edit) return;
+    const { width, height } = canvas;
+    const barWidth = width / peaks.length;
+    ctx.clearRect(0, 0, width, height);
+    peaks.forEach((peak, bin) => {
+      const time = (bin + 0.5) / peaks.length * source.duration;
+      const inside = time >= edit.trimStart && time <= edit.trimEnd;
+      const barHeight = Math.max(1, peak * height);
+      ctx.fillStyle = inside ? 'rgb(96, 165, 250)' : 'rgb(51, 65, 85)';
+      ctx.fillRect(bin * barWidth, (height - barHeight) / 2, Math.max(1, barWidth - 1), barHeight);
+    });
+  }, [peaks, source, edit]);
+
+  const timeAt = (clientX: number, element: HTMLElement) => {
+    const rect = element.getBoundingClientRect();
+    const ratio = Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
+    return ratio * (source?.duration ?? 0);
+  };
+
+  const moveHandle = (handle: 'in' | 'out', time: number) => {
+    setEdit(prev => {
+      if (!prev) return prev;
+      return handle === 'in'
+        ? { ...prev, trimStart: Math.min(time, prev.trimEnd - MIN_SELECTION_SECONDS) }
+        : { ...prev, trimEnd: Math.max(time, prev.trimStart + MIN_SELECTION_SECONDS) };
+    });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!edit) return;
+    const time = timeAt(e.clientX, e.currentTarget);
+    const handle = Math.abs(time - edit.trimStart) <= Math.abs(time - edit.trimEnd) ? 'in' : 'out';
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragging(handle);
+    moveHandle(handle, time);
+  };
+
+  const handleAutoTrim = () => {
+    if (!samples || !source) return;
+    const { start, end } = detectSpeechBounds(samples, source.sampleRate);
+    setEdit(prev => prev && { ...prev, trimStart: start, trimEnd: end });
+  };
+
+  const render = async (): Promise<AudioBuffer | null> => {
+    if (!source || !edit) return null;
+    setRendering(true);
+    try {
+      return await renderTakeEdit(source, edit);
+    } catch (err) {
+      console.error("Edit render failed", err);
+      setError("The edit could not be rendered.");
+      return null;
+    } finally {
+      setRendering(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    const rendered = await render();
+    if (rendered) play(rendered, `Take ${take.takeNumber} · edit preview`);
+  };
+
+  const handleSave = async () => {
+    const rendered = await render();
+    if (rendered && edit) onSave(edit, rendered);
+  };
+
+  const duration = source?.duration ?? 0;
+  const percent = (time: number) => duration ? `${(time / duration) * 100}%` : '0%';
+
+  return (
+    <div className="p-3 bg-slate-950/50 rounded-xl border border-blue-500/30 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-black text-blue-400 uppercase tracking-[0.2em]">Edit take {take.takeNumber}</span>
+        <button onClick={onClose} title="Close editor" className="text-slate-500 hover:text-white transition-colors">
+          <i className="fas fa-xmark text-xs"></i>
+        </button>
+      </div>
+
+      {error ? <p className="text-xs text-red-400">{error}</p> : !edit ? (
+        <p className="text-xs text-slate-500 italic">Loading waveform...</p>
+      ) : (
+        <>
+          <div
+            className="relative h-20 cursor-ew-resize select-none touch-none"
+            onPointerDown={handlePointerDown}
+            onPointerMove={(e) => dragging && moveHandle(dragging, timeAt(e.clientX, e.currentTarget))}
+            onPointerUp={() => setDragging(null)}
+            onPointerCancel={() => setDragging(null)}
+          >
+            <canvas ref={canvasRef} width={400} height={80} className="w-full h-full rounded-lg bg-slate-900/50" />
+            <div className="absolute inset-y-0 w-0.5 bg-green-400" style={{ left: percent(edit.trimStart) }} title="In point"></div>
+            <div className="absolute inset-y-0 w-0.5 bg-red-400" style={{ left: percent(edit.trimEnd) }} title="Out point"></div>
+          </div>
+          <p className="text-[10px] font-mono text-slate-400">
+            in {edit.trimStart.toFixed(2)}s &middot; out {edit.trimEnd.toFixed(2)}s &middot; {(edit.trimEnd - edit.trimStart).toFixed(2)}s of {duration.toFixed(2)}s
+          </p>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={handleAutoTrim}
+              className="px-3 py-1 rounded-lg text-[10px] font-black tracking-widest uppercase bg-slate-800/50 border border-slate-700 text-slate-400 hover:bg-blue-600 hover:text-white transition-all"
+            ><i className="fas fa-wand-magic-sparkles mr-1"></i> Trim silence</button>
+            <select
+              value={edit.normalize}
+              onChange={(e) => setEdit({ ...edit, normalize: e.target.value as NormalizeMode })}
+              className="bg-slate-950/50 border border-slate-700 rounded-lg px-2 py-1 text-xs appearance-none cursor-pointer"
+            >
+              {NORMALIZE_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+          </div>
+
+          <div className="flex items-center gap-2 text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={edit.gateDb !== null}
+                onChange={(e) => setEdit({ ...edit, gateDb: e.target.checked ? DEFAULT_GATE_DB : null })}
+                className="accent-blue-500"
+              />
+              Noise gate
+            </label>
+            {edit.gateDb !== null && (
+              <>
+                <input
+                  type="range"
+                  min={-70}
+                  max={-20}
+                  step={1}
+                  value={edit.gateDb}
+                  onChange={(e) => setEdit({ ...edit, gateDb: Number(e.target.value) })}
+                  className="flex-1 accent-blue-500"
+                />
+                <span className="font-mono normal-case w-14 text-right">{edit.gateDb} dB</span>
+              </>
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={handlePreview}
+              disabled={rendering}
+              className="flex-1 py-2 rounded-xl text-xs font-bold bg-green-600/10 text-green-400 hover:bg-green-600 hover:text-white transition-all disabled:opacity-40"
+            ><i className="fas fa-play mr-1"></i> Preview</button>
+            <button
+              onClick={handleSave}
+              disabled={rendering}
+              className="flex-1 py-2 rounded-xl text-xs font-bold bg-blue-600 text-white hover:bg-blue-500 transition-all disabled:opacity-40"
+            ><i className="fas fa-floppy-disk mr-1"></i> Save as new take</button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TakeEditor;
@@ -0,0 +1,94 @@
+
+import React from 'react';
+import { DialogueLine, DubbingPerformance } from '../types';
+import { overallScore } from '../services/feedback';
+import { isTakeStale } from '../services/scriptEdit';
+
+interface Props {
+  line: DialogueLine;
+  takes: DubbingPerformance[];
+  compareIds: string[];
+  onPlay: (take: DubbingPerformance) => void;
+  onToggleCircle: (takeId: string) => void;
+  onDelete: (takeId: string) => void;
+  onToggleCompare: (takeId: string) => void;
+  onEdit: (takeId: string) => void;
+}
+
+const TakeList: React.FC<Props> = ({ line, takes, compareIds, onPlay, onToggleCircle, onDelete, onToggleCompare, onEdit }) => {
+  const compared = takes.filter(t => compareIds.includes(t.id));
+
+  return (
+    <div className="space-y-3">
+      <div className="p-3 bg-slate-950/30 rounded-xl border border-slate-800">
+        <span className="text-[10px] font-black text-blue-500 uppercase tracking-[0.2em]">{line.character}</span>
+        <p className="text-xs text-slate-300 mt-1 line-clamp-2">{line.text}</p>
+      </div>
+
+      {takes.length === 0 ? (
+        <p className="text-xs text-slate-500 italic px-1">No takes yet. Hit record to lay down take 1.</p>
+      ) : takes.map(take => (
+        <div
+          key={take.id}
+          className={`flex items-center gap-3 p-3 bg-slate-950/50 rounded-xl border ${take.circled ? 'border-amber-500/60' : 'border-slate-800'}`}
+        >
+          <button
+            onClick={() => onToggleCircle(take.id)}
+            title={take.circled ? 'Uncircle take' : 'Circle take'}
+            className={`w-8 h-8 rounded-full flex items-center justify-center border transition-all ${take.circled ? 'border-amber-400 text-amber-400' : 'border-slate-700 text-slate-600 hover:text-amber-400'}`}
+          >
+            <span className="text-xs font-black">{take.takeNumber}</span>
+          </button>
+          <div className="flex-1 min-w-0">
+            <p className="text-xs font-bold text-slate-200 uppercase tracking-tighter">
+              Take {take.takeNumber} <span className="text-slate-500 font-mono normal-case">{take.duration.toFixed(1)}s</span>
+              {take.editedFrom && (
+                <span className="text-blue-400/70 normal-case font-medium"> &middot; edit of take {takes.find(t => t.id === take.editedFrom)?.takeNumber ?? '?'}</span>
+              )}
+              {isTakeStale(take, line) && (
+                <span title={`Recorded as ${take.script!.character} (${take.script!.emotion}): "${take.script!.text}"`} className="text-amber-400 normal-case font-medium"> &middot; stale</span>
+              )}
+            </p>
+            <p className="text-xs text-slate-400 italic truncate">"{take.transcription || 'No dialogue detected'}"</p>
+          </div>
+          <label className="flex items-center text-[9px] text-slate-500 uppercase font-bold gap-1 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={compareIds.includes(take.id)}
+              onChange={() => onToggleCompare(take.id)}
+              className="accent-blue-500"
+            />
+            Cmp
+          </label>
+          <button onClick={() => onPlay(take)} className="w-8 h-8 rounded-full bg-green-600/10 text-green-400 hover:bg-green-600 hover:text-white transition-all flex items-center justify-center">
+            <i className="fas fa-play text-[10px]"></i>
+          </button>
+          <button onClick={() => onEdit(take.id)} title="Edit take" className="w-8 h-8 rounded-full bg-blue-600/10 text-blue-400 hover:bg-blue-600 hover:text-white transition-all flex items-center justify-center">
+            <i className="fas fa-scissors text-[10px]"></i>
+          </button>
+          <button onClick={() => onDelete(take.id)} className="w-8 h-8 rounded-full bg-red-600/10 text-red-400 hover:bg-red-600 hover:text-white transition-all flex items-center justify-center">
+            <i className="fas fa-trash text-[10px]"></i>
+          </button>
+        </div>
+      ))}
+
+      {compared.length === 2 && (
+        <div className="grid grid-cols-2 gap-3">
+          {compared.map(take => (
+            <div key={take.id} className="p-3 bg-blue-500/5 border border-blue-500/10 rounded-xl">
+              <span className="text-[10px] font-bold text-blue-400 uppercase tracking-[0.2em] block mb-1">Take {take.takeNumber}</span>
+              <p className="text-[10px] font-mono text-slate-400 mb-2">
+                {take.duration.toFixed(1)}s
+                {overallScore(take.feedback) !== null && <> &middot; {overallScore(take.feedback)!.toFixed(1)} pts</>}
+              </p>
+              <p className="text-xs italic text-slate-300 mb-2">"{take.transcription || 'No dialogue detected'}"</p>
+              {take.feedback && <p className="text-[11px] text-slate-400 leading-relaxed">{take.feedback.summary}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TakeList;
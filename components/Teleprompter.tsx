@@ -0,0 +1,87 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Scene } from '../types';
+import { prompterUnits } from '../services/prompter';
+
+export interface PrompterState {
+  lineId: string;
+  phase: 'countdown' | 'rolling';
+  count: number;
+  windowDuration: number;
+  // performance.now() at cue-in, once rolling.
+  rollingSince?: number;
+  // Voice reading the line during a table read; unset when the user performs it.
+  voicedBy?: string;
+}
+
+interface Props {
+  scene: Scene;
+  prompter: PrompterState;
+}
+
+const Teleprompter: React.FC<Props> = ({ scene, prompter }) => {
+  const lineRefs = useRef<Record<string, HTMLDivElement | null>>({});
+  const [elapsed, setElapsed] = useState(0);
+
+  useEffect(() => {
+    lineRefs.current[prompter.lineId]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [prompter.lineId]);
+
+  useEffect(() => {
+    if (prompter.phase !== 'rolling' || prompter.rollingSince === undefined) {
+      setElapsed(0);
+      return;
+    }
+    let frame: number;
+    const tick = () => {
+      setElapsed((performance.now() - prompter.rollingSince!) / 1000);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [prompter.phase, prompter.rollingSince]);
+
+  const progress = prompter.windowDuration > 0 ? Math.min(1, elapsed / prompter.windowDuration) : 0;
+
+  return (
+    <div className="relative flex-1 overflow-y-auto custom-scrollbar mb-8 py-16 space-y-10">
+      {prompter.phase === 'countdown' && (
+        <div className="absolute inset-0 z-10 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm rounded-2xl">
+          <span className="text-9xl font-black text-red-500 tabular-nums">{prompter.count}</span>
+        </div>
+      )}
+
+      {scene.dialogue.map(line => {
+        const isCurrent = line.id === prompter.lineId;
+        const units = prompterUnits(line.text, scene.language);
+        const spoken = Math.floor(progress * units.length);
+        return (
+          <div
+            key={line.id}
+            ref={el => { lineRefs.current[line.id] = el; }}
+            className={`text-center transition-all duration-500 ${isCurrent ? 'opacity-100 scale-100' : 'opacity-20 scale-90'}`}
+          >
+            <span className="text-xs font-black text-blue-500 uppercase tracking-[0.3em]">{line.character} &middot; {line.emotion}</span>
+            {isCurrent && prompter.voicedBy && (
+              <span className="block text-[10px] font-bold text-slate-500 uppercase tracking-widest mt-1">Read by {prompter.voicedBy}</span>
+            )}
+            <p className="text-4xl font-bold leading-tight mt-2">
+              {isCurrent
+                ? units.map((unit, i) => (
+                    <span key={i} className={i < spoken ? (prompter.voicedBy ? 'text-blue-400' : 'text-red-400') : 'text-white'}>{unit}</span>
+                  ))
+                : <span className="text-slate-300">{line.text}</span>}
+            </p>
+            {isCurrent && (
+              <div className="mx-auto mt-4 max-w-md h-1 bg-slate-800 rounded-full overflow-hidden">
+                <div className="h-full bg-red-500" style={{ width: `${progress * 100}%` }}></div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default Teleprompter;
@@ -0,0 +1,54 @@
+import { Scene, DialogueLine, DirectorFeedback, SyncAnalysis } from "../types";
+import { ServiceErrorKind } from "./errors";
+import { SceneOptions } from "./sceneOptions";
+
+/**
+ * Everything the studio asks of an AI backend. Implementations live in
+ * geminiService.ts (network) and mockProvider.ts (offline, deterministic);
+ * aiService.ts picks one from config and exposes the calls to the app.
+ * Failed calls reject with a ServiceError rather than resolving empty.
+ */
+export interface AIProvider {
+  id: ProviderId;
+  label: string;
+  // Whether the AI Studio key picker should be shown before paid calls.
+  requiresApiKey: boolean;
+  // The scene matches `options` (see checkGeneratedScene) or the call rejects.
+  // Line length is best effort; a miss comes back in `warnings`.
+  generateScene: (prompt: string, language: string, options: SceneOptions) => Promise<GeneratedScene>;
+  // Keeps line ids, characters and emotions; see translation.ts.
+  translateScene: (scene: Scene, targetLanguage: string) => Promise<Scene>;
+  // Rewrites one line with the rest of the scene as context; an empty
+  // instruction asks for a fresh alternative. The character never changes.
+  rewriteLine: (scene: Scene, lineId: string, instruction: string) => Promise<LineRewrite>;
+  generateSceneImage: (title: string, context: string) => Promise<string | null>;
+  // Video renders are long-running: start returns an operation name that
+  // getVideoOperation polls, so renderJobs.ts can resume it after a reload.
+  startSceneVideo: (prompt: string, imageBase64?: string) => Promise<string>;
+  startLipSyncVideo: (originalVideoUrl: string, transcription: string) => Promise<string>;
+  getVideoOperation: (operationName: string) => Promise<VideoOperationStatus>;
+  // Stored video URLs carry no credentials; this returns one that can be played or fetched.
+  videoSourceUrl: (videoUrl: string) => string;
+  transcribeAudio: (audioBlob: Blob) => Promise<string>;
+  // `sync` carries the locally measured timing when the take could be analysed.
+  getPerformanceFeedback: (scene: Scene, line: DialogueLine, recordingDuration: number, transcript: string, sync?: SyncAnalysis) => Promise<DirectorFeedback>;
+  // Returns 16-bit mono PCM at REFERENCE_SAMPLE_RATE.
+  generateReferenceAudio: (text: string, voice?: string) => Promise<Uint8Array | null>;
+}
+
+export interface GeneratedScene {
+  scene: Scene;
+  // Plain-language notes on where the scene falls short, e.g. from checkLineLengths.
+  warnings: string[];
+}
+
+export type LineRewrite = Pick<DialogueLine, 'text' | 'emotion'>;
+
+export interface VideoOperationStatus {
+  done: boolean;
+  videoUrl?: string | null;
+  error?: string;
+  errorKind?: ServiceErrorKind;
+}
+
+export type ProviderId = 'gemini' | 'mock';
@@ -0,0 +1,26 @@
+import { AIProvider, ProviderId } from "./aiProvider";
+import { createGeminiProvider } from "./geminiService";
+import { createMockProvider } from "./mockProvider";
+import { getApiKey, getProviderId } from "./config";
+
+const createProvider = (id: ProviderId): AIProvider =>
+  id === 'mock' ? createMockProvider() : createGeminiProvider(getApiKey);
+
+let activeProvider: AIProvider | null = null;
+
+export const getProvider = (): AIProvider => {
+  if (!activeProvider) activeProvider = createProvider(getProviderId());
+  return activeProvider;
+};
+
+export const generateScene: AIProvider['generateScene'] = (...args) => getProvider().generateScene(...args);
+export const translateScene: AIProvider['translateScene'] = (...args) => getProvider().translateScene(...args);
+export const rewriteLine: AIProvider['rewriteLine'] = (...args) => getProvider().rewriteLine(...args);
+export const generateSceneImage: AIProvider['generateSceneImage'] = (...args) => getProvider().generateSceneImage(...args);
+export const startSceneVideo: AIProvider['startSceneVideo'] = (...args) => getProvider().startSceneVideo(...args);
+export const startLipSyncVideo: AIProvider['startLipSyncVideo'] = (...args) => getProvider().startLipSyncVideo(...args);
+export const getVideoOperation: AIProvider['getVideoOperation'] = (...args) => getProvider().getVideoOperation(...args);
+export const videoSourceUrl: AIProvider['videoSourceUrl'] = (...args) => getProvider().videoSourceUrl(...args);
+export const transcribeAudio: AIProvider['transcribeAudio'] = (...args) => getProvider().transcribeAudio(...args);
+export const getPerformanceFeedback: AIProvider['getPerformanceFeedback'] = (...args) => getProvider().getPerformanceFeedback(...args);
+export const generateReferenceAudio: AIProvider['generateReferenceAudio'] = (...args) => getProvider().generateReferenceAudio(...args);
@@ -0,0 +1,78 @@
+
+import { gainToDb } from "./audioEdit";
+
+/**
+ * Metering and spectrum helpers shared by the live visualizer and static
+ * take overviews. Levels are in dBFS; 0 dBFS is full scale.
+ */
+
+export const METER_FLOOR_DB = -60;
+// Samples at or above this are treated as clipped.
+export const CLIP_LEVEL = 0.99;
+// Sustained RMS below this while performing suggests the mic gain is too low.
+export const QUIET_RMS_DB = -45;
+
+export interface Levels {
+  peakDb: number;
+  rmsDb: number;
+  clipped: boolean;
+}
+
+export const measureFrame = (samples: Float32Array): Levels => {
+  let peak = 0;
+  let sumSquares = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const level = Math.abs(samples[i]);
+    if (level > peak) peak = level;
+    sumSquares += samples[i] * samples[i];
+  }
+  const rms = samples.length ? Math.sqrt(sumSquares / samples.length) : 0;
+  return { peakDb: gainToDb(peak), rmsDb: gainToDb(rms), clipped: peak >= CLIP_LEVEL };
+};
+
+// 0..1 position of a level on a meter running from floorDb to 0 dBFS.
+export const meterPosition = (db: number, floorDb: number = METER_FLOOR_DB): number =>
+  Math.max(0, Math.min(1, (db - floorDb) / -floorDb));
+
+/**
+ * Magnitude spectrum in dBFS of one frame (length must be a power of two),
+ * Hann-windowed, via an in-place radix-2 FFT. Returns length / 2 bins.
+ */
+export const spectrumDb = (frame: Float32Array): Float32Array => {
+  const n = frame.length;
+  const re = new Float32Array(n);
+  const im = new Float32Array(n);
+  for (let i = 0; i < n; i++) re[i] = frame[i] * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1)));
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * cos - im[b] * sin;
+        const tIm = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+      }
+    }
+  }
+
+  const bins = new Float32Array(n / 2);
+  // A full-scale sine through a Hann window peaks at n / 4.
+  for (let i = 0; i < bins.length; i++) bins[i] = gainToDb(Math.hypot(re[i], im[i]) / (n / 4));
+  return bins;
+};
@@ -0,0 +1,148 @@
+
+import { NormalizeMode, TakeEdit } from "../types";
+import { floatToPcm16, pcm16ToWav } from "./wav";
+
+/**
+ * Local take editing: waveform peaks, silence detection, normalization and a
+ * noise gate. Trim and gain are rendered through an OfflineAudioContext; the
+ * gate runs on the rendered samples. Results are mono 16-bit WAV.
+ */
+
+export const PEAK_TARGET_DB = -1;
+export const LOUDNESS_TARGET_DB = -20;
+export const DEFAULT_GATE_DB = -50;
+export const SILENCE_THRESHOLD_DB = -45;
+
+const ANALYSIS_WINDOW_SECONDS = 0.01;
+const SPEECH_PAD_SECONDS = 0.08;
+const GATE_ATTACK_SECONDS = 0.005;
+const GATE_RELEASE_SECONDS = 0.08;
+
+export const dbToGain = (db: number) => 10 ** (db / 20);
+
+export const gainToDb = (gain: number) => gain > 0 ? 20 * Math.log10(gain) : -Infinity;
+
+export const mixToMono = (buffer: AudioBuffer): Float32Array => {
+  if (buffer.numberOfChannels === 1) return buffer.getChannelData(0);
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+  }
+  return mono;
+};
+
+// Largest absolute sample per bin, for drawing a waveform.
+export const computePeaks = (samples: Float32Array, bins: number): Float32Array => {
+  const peaks = new Float32Array(bins);
+  const perBin = samples.length / bins;
+  for (let bin = 0; bin < bins; bin++) {
+    let peak = 0;
+    const end = Math.min(samples.length, Math.floor((bin + 1) * perBin));
+    for (let i = Math.floor(bin * perBin); i < end; i++) peak = Math.max(peak, Math.abs(samples[i]));
+    peaks[bin] = peak;
+  }
+  return peaks;
+};
+
+export const measureLevels = (samples: Float32Array): { peak: number; rms: number } => {
+  let peak = 0;
+  let sumSquares = 0;
+  for (let i = 0; i < samples.length; i++) {
+    peak = Math.max(peak, Math.abs(samples[i]));
+    sumSquares += samples[i] * samples[i];
+  }
+  return { peak, rms: samples.length ? Math.sqrt(sumSquares / samples.length) : 0 };
+};
+
+/**
+ * Finds where speech starts and ends by scanning 10 ms RMS windows against a
+ * threshold, padded slightly so consonants aren't clipped. Falls back to the
+ * whole clip when nothing crosses the threshold.
+ */
+export const detectSpeechBounds = (
+  samples: Float32Array,
+  sampleRate: number,
+  thresholdDb: number = SILENCE_THRESHOLD_DB
+): { start: number; end: number } => {
+  const duration = samples.length / sampleRate;
+  const windowSize = Math.max(1, Math.round(ANALYSIS_WINDOW_SECONDS * sampleRate));
+  const threshold = dbToGain(thresholdDb);
+  let first = -1;
+  let last = -1;
+  for (let offset = 0; offset < samples.length; offset += windowSize) {
+    const { rms } = measureLevels(samples.subarray(offset, offset + windowSize));
+    if (rms >= threshold) {
+      if (first < 0) first = offset;
+      last = Math.min(samples.length, offset + windowSize);
+    }
+  }
+  if (first < 0) return { start: 0, end: duration };
+  return {
+    start: Math.max(0, first / sampleRate - SPEECH_PAD_SECONDS),
+    end: Math.min(duration, last / sampleRate + SPEECH_PAD_SECONDS)
+  };
+};
+
+// Gain that brings the samples to the target, never pushing peaks past PEAK_TARGET_DB.
+export const normalizationGain = (samples: Float32Array, mode: NormalizeMode): number => {
+  if (mode === 'none') return 1;
+  const { peak, rms } = measureLevels(samples);
+  if (peak === 0) return 1;
+  const peakLimit = dbToGain(PEAK_TARGET_DB) / peak;
+  return mode === 'peak' ? peakLimit : Math.min(dbToGain(LOUDNESS_TARGET_DB) / rms, peakLimit);
+};
+
+// Envelope-follower gate: fast attack, slower release, so word tails aren't chopped.
+export const applyNoiseGate = (samples: Float32Array, sampleRate: number, thresholdDb: number): Float32Array => {
+  const threshold = dbToGain(thresholdDb);
+  const attack = 1 - Math.exp(-1 / (GATE_ATTACK_SECONDS * sampleRate));
+  const release = 1 - Math.exp(-1 / (GATE_RELEASE_SECONDS * sampleRate));
+  const gated = new Float32Array(samples.length);
+  let envelope = 0;
+  let gain = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const level = Math.abs(samples[i]);
+    envelope += (level - envelope) * (level > envelope ? attack : release);
+    const target = envelope >= threshold ? 1 : 0;
+    gain += (target - gain) * (target > gain ? attack : release);
+    gated[i] = samples[i] * gain;
+  }
+  return gated;
+};
+
+export const defaultTakeEdit = (duration: number): TakeEdit => ({
+  trimStart: 0,
+  trimEnd: duration,
+  normalize: 'none',
+  gateDb: null
+});
+
+export const renderTakeEdit = async (source: AudioBuffer, edit: TakeEdit): Promise<AudioBuffer> => {
+  const { sampleRate } = source;
+  const start = Math.max(0, Math.min(edit.trimStart, source.duration));
+  const end = Math.max(start, Math.min(edit.trimEnd, source.duration));
+  const frames = Math.max(1, Math.round((end - start) * sampleRate));
+
+  const segment = mixToMono(source).subarray(Math.round(start * sampleRate), Math.round(start * sampleRate) + frames);
+  const gain = normalizationGain(segment, edit.normalize);
+
+  const offline = new OfflineAudioContext(1, frames, sampleRate);
+  const node = offline.createBufferSource();
+  node.buffer = source;
+  const gainNode = offline.createGain();
+  gainNode.gain.value = gain;
+  node.connect(gainNode).connect(offline.destination);
+  node.start(0, start, end - start);
+  const rendered = await offline.startRendering();
+
+  if (edit.gateDb !== null) {
+    // The threshold refers to the source level, so it moves with the applied gain.
+    const gated = applyNoiseGate(rendered.getChannelData(0), sampleRate, edit.gateDb + gainToDb(gain));
+    rendered.copyToChannel(gated, 0);
+  }
+  return rendered;
+};
+
+export const audioBufferToWavBlob = (buffer: AudioBuffer): Blob =>
+  new Blob([pcm16ToWav(floatToPcm16(mixToMono(buffer)), buffer.sampleRate)], { type: 'audio/wav' });
@@ -0,0 +1,95 @@
+
+/**
+ * Microphone selection and recorder format negotiation. Input settings are
+ * kept in localStorage per browser, since device ids don't travel between
+ * machines. The recorder format is whatever this browser actually supports,
+ * and its real MIME type goes with every take from then on.
+ */
+
+export interface InputSettings {
+  // null uses the browser's default input.
+  deviceId: string | null;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+}
+
+export const DEFAULT_INPUT_SETTINGS: InputSettings = {
+  deviceId: null,
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true
+};
+
+// Most preferred first. Opus keeps takes small; mp4 covers Safari.
+export const RECORDER_MIME_TYPES = [
+  'audio/webm;codecs=opus',
+  'audio/ogg;codecs=opus',
+  'audio/mp4',
+  'audio/webm',
+  'audio/ogg',
+  'audio/wav'
+];
+
+// Used only when a browser reports neither a negotiated nor a recorded type.
+export const FALLBACK_MIME_TYPE = 'audio/webm';
+
+const STORAGE_KEY = 'dubmaster-input-settings';
+
+export const loadInputSettings = (): InputSettings => {
+  try {
+    return { ...DEFAULT_INPUT_SETTINGS, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+  } catch (err) {
+    console.error("Could not read input settings", err);
+    return DEFAULT_INPUT_SETTINGS;
+  }
+};
+
+export const saveInputSettings = (settings: InputSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.error("Could not save input settings", err);
+  }
+};
+
+// Strips codec parameters, e.g. "audio/webm;codecs=opus" -> "audio/webm".
+export const baseMimeType = (mimeType: string) => mimeType.split(';')[0].trim();
+
+export const audioConstraints = (settings: InputSettings): MediaTrackConstraints => ({
+  ...(settings.deviceId ? { deviceId: { exact: settings.deviceId } } : {}),
+  echoCancellation: settings.echoCancellation,
+  noiseSuppression: settings.noiseSuppression,
+  autoGainControl: settings.autoGainControl
+});
+
+export const openInput = (settings: InputSettings): Promise<MediaStream> =>
+  navigator.mediaDevices.getUserMedia({ audio: audioConstraints(settings) });
+
+// True when getUserMedia failed because the chosen device isn't there any more.
+export const isDeviceMissing = (err: unknown) =>
+  err instanceof DOMException && (err.name === 'OverconstrainedError' || err.name === 'NotFoundError');
+
+// Labels stay empty until the site has been granted mic access once.
+export const listInputDevices = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'audioinput' && device.deviceId !== '');
+};
+
+// The first of the candidates this browser's MediaRecorder can produce.
+export const firstSupportedType = (candidates: string[]): string | undefined => {
+  if (typeof MediaRecorder === 'undefined' || !MediaRecorder.isTypeSupported) return undefined;
+  return candidates.find(type => MediaRecorder.isTypeSupported(type));
+};
+
+export const pickRecorderMimeType = (): string | undefined => firstSupportedType(RECORDER_MIME_TYPES);
+
+export const createRecorder = (stream: MediaStream): MediaRecorder => {
+  const mimeType = pickRecorderMimeType();
+  return new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+};
+
+// The type to label a finished recording with: what the recorder says it produced.
+export const recordedMimeType = (recorder: MediaRecorder, chunks: Blob[]) =>
+  recorder.mimeType || chunks.find(chunk => chunk.type)?.type || FALLBACK_MIME_TYPE;
@@ -0,0 +1,53 @@
+import { Scene } from "../types";
+
+export interface VoiceOption {
+  name: string;
+  style: string;
+}
+
+// Prebuilt voices offered by the TTS model, ordered so neighbours contrast.
+export const PREBUILT_VOICES: VoiceOption[] = [
+  { name: 'Kore', style: 'Firm' },
+  { name: 'Puck', style: 'Upbeat' },
+  { name: 'Charon', style: 'Informative' },
+  { name: 'Aoede', style: 'Breezy' },
+  { name: 'Fenrir', style: 'Excitable' },
+  { name: 'Leda', style: 'Youthful' },
+  { name: 'Orus', style: 'Firm' },
+  { name: 'Zephyr', style: 'Bright' },
+  { name: 'Enceladus', style: 'Breathy' },
+  { name: 'Despina', style: 'Smooth' },
+  { name: 'Algenib', style: 'Gravelly' },
+  { name: 'Sulafat', style: 'Warm' }
+];
+
+export const DEFAULT_VOICE = PREBUILT_VOICES[0].name;
+
+export const AUDITION_LINE = 'This is how I sound when I read your lines.';
+
+export const getCharacters = (scene: Scene): string[] =>
+  Array.from(new Set(scene.dialogue.map(line => line.character)));
+
+export const getVoiceFor = (scene: Scene, character: string): string =>
+  scene.casting?.[character] || DEFAULT_VOICE;
+
+/**
+ * Fills in a voice for every character that doesn't have one yet, preferring
+ * voices nobody else in the scene is using so characters sound distinct.
+ */
+export const ensureCasting = (scene: Scene): Scene => {
+  const casting = { ...(scene.casting || {}) };
+  const characters = getCharacters(scene);
+  const missing = characters.filter(character => !casting[character]);
+  if (missing.length === 0) return scene;
+
+  const used = new Set(Object.values(casting));
+  let cursor = 0;
+  for (const character of missing) {
+    const free = PREBUILT_VOICES.find(voice => !used.has(voice.name));
+    const voice = free ? free.name : PREBUILT_VOICES[cursor++ % PREBUILT_VOICES.length].name;
+    casting[character] = voice;
+    used.add(voice);
+  }
+  return { ...scene, casting };
+};
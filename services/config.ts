@@ -0,0 +1,15 @@
+import { ProviderId } from "./aiProvider";
+
+const PROVIDER_IDS: ProviderId[] = ['gemini', 'mock'];
+
+export const getApiKey = (): string | undefined => process.env.API_KEY;
+
+/**
+ * The AI backend comes from AI_PROVIDER in .env.local, and can be overridden
+ * per tab with a `?provider=mock` query parameter for offline demos.
+ */
+export const getProviderId = (): ProviderId => {
+  const fromQuery = new URLSearchParams(window.location.search).get('provider');
+  const configured = fromQuery || process.env.AI_PROVIDER || 'gemini';
+  return PROVIDER_IDS.includes(configured as ProviderId) ? (configured as ProviderId) : 'gemini';
+};
@@ -0,0 +1,102 @@
+
+/**
+ * One error type for everything the AI services can throw, so callers can
+ * branch on `kind` instead of matching provider message strings.
+ */
+
+export type ServiceErrorKind = 'auth' | 'billing' | 'quota' | 'safety' | 'network' | 'malformedOutput' | 'storage' | 'unknown';
+
+export class ServiceError extends Error {
+  constructor(public kind: ServiceErrorKind, message: string, public cause?: unknown) {
+    super(message);
+    this.name = 'ServiceError';
+  }
+
+  // Rate limits and dropped connections usually clear up on their own.
+  get retryable(): boolean {
+    return this.kind === 'quota' || this.kind === 'network';
+  }
+}
+
+export interface ErrorAdvice {
+  title: string;
+  action: string;
+}
+
+export const ERROR_ADVICE: Record<ServiceErrorKind, ErrorAdvice> = {
+  auth: {
+    title: 'API key missing or rejected',
+    action: 'Select a valid Gemini API key, or switch to offline mode with ?provider=mock.'
+  },
+  billing: {
+    title: 'Paid API key required',
+    action: 'Video and lip-sync rendering need a key from a project with billing enabled. Select a paid key or turn video off.'
+  },
+  quota: {
+    title: 'Rate limit reached',
+    action: 'The API is throttling requests. Wait a minute and try again.'
+  },
+  safety: {
+    title: 'Blocked by safety filters',
+    action: 'The model declined this request. Rephrase the scene prompt or line and try again.'
+  },
+  network: {
+    title: 'Connection problem',
+    action: 'The service could not be reached. Check your connection and try again.'
+  },
+  malformedOutput: {
+    title: 'Unexpected model output',
+    action: 'The model returned something the studio could not read. Trying again usually works.'
+  },
+  storage: {
+    title: 'Browser storage is full',
+    action: 'Recent changes could not be saved. Export or delete old projects to free up space, then keep working.'
+  },
+  unknown: {
+    title: 'Something went wrong',
+    action: 'Try again. If it keeps happening, check the browser console for details.'
+  }
+};
+
+const field = (err: unknown, name: string): unknown =>
+  typeof err === 'object' && err !== null && name in err ? (err as Record<string, unknown>)[name] : undefined;
+
+const statusOf = (err: unknown): number | undefined => {
+  const status = field(err, 'status');
+  const code = field(err, 'code');
+  return typeof status === 'number' ? status : typeof code === 'number' ? code : undefined;
+};
+
+const messageOf = (err: unknown): string => {
+  const message = field(err, 'message');
+  return message === undefined || message === null ? '' : String(message);
+};
+
+const kindFor = (err: unknown): ServiceErrorKind => {
+  const status = statusOf(err);
+  const message = messageOf(err);
+
+  if (err instanceof DOMException && err.name === 'QuotaExceededError') return 'storage';
+  // AI Studio answers video calls from unbilled projects with a 404 for the model.
+  if (message.includes('Requested entity was not found')) return 'billing';
+  if (status === 401 || status === 403 || /API key|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) return 'auth';
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) return 'quota';
+  if (/billing|FAILED_PRECONDITION/i.test(message)) return 'billing';
+  if (/SAFETY|blocked/i.test(message)) return 'safety';
+  if (status !== undefined && status >= 500) return 'network';
+  if (err instanceof TypeError && /fetch|network/i.test(message)) return 'network';
+  if (err instanceof SyntaxError) return 'malformedOutput';
+  return 'unknown';
+};
+
+export const toServiceError = (err: unknown): ServiceError => {
+  if (err instanceof ServiceError) return err;
+  const kind = kindFor(err);
+  const message = messageOf(err) || ERROR_ADVICE[kind].title;
+  return new ServiceError(kind, message, err);
+};
+
+export const describeError = (err: unknown): ErrorAdvice & { detail: string } => {
+  const error = toServiceError(err);
+  return { ...ERROR_ADVICE[error.kind], detail: error.message };
+};
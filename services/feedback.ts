@@ -0,0 +1,62 @@
+import { DirectorFeedback, FeedbackCategory, FeedbackScore, DubbingPerformance } from "../types";
+import { ServiceError } from "./errors";
+
+export const FEEDBACK_CATEGORIES: { key: FeedbackCategory; label: string }[] = [
+  { key: 'timing', label: 'Timing' },
+  { key: 'scriptAccuracy', label: 'Script Accuracy' },
+  { key: 'emotionalDelivery', label: 'Emotional Delivery' },
+  { key: 'pronunciation', label: 'Pronunciation' }
+];
+
+export const MIN_SCORE = 1;
+export const MAX_SCORE = 10;
+
+const clampScore = (value: unknown): number => {
+  const score = Math.round(Number(value));
+  if (!Number.isFinite(score)) throw new ServiceError('malformedOutput', `Feedback score "${value}" is not a number.`);
+  return Math.min(MAX_SCORE, Math.max(MIN_SCORE, score));
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+/**
+ * Validates model output against the DirectorFeedback shape, clamping scores
+ * into range. Throws when a category or the notes are missing.
+ */
+export const parseDirectorFeedback = (raw: unknown): DirectorFeedback => {
+  if (!isRecord(raw)) throw new ServiceError('malformedOutput', "Feedback response is not an object.");
+  const scores = {} as Record<FeedbackCategory, FeedbackScore>;
+  for (const { key } of FEEDBACK_CATEGORIES) {
+    const entry = isRecord(raw.scores) ? raw.scores[key] : undefined;
+    if (!isRecord(entry)) throw new ServiceError('malformedOutput', `Feedback response is missing the ${key} score.`);
+    scores[key] = { score: clampScore(entry.score), rationale: String(entry.rationale || '').trim() };
+  }
+  if (typeof raw.lineNote !== 'string' || typeof raw.summary !== 'string') {
+    throw new ServiceError('malformedOutput', "Feedback response is missing its notes.");
+  }
+  return { scores, lineNote: raw.lineNote.trim(), summary: raw.summary.trim() };
+};
+
+// Wraps pre-structured feedback text from older projects and bundles.
+export const legacyFeedback = (text: string): DirectorFeedback => ({ lineNote: '', summary: text });
+
+export const migrateTakeFeedback = <T extends { feedback?: unknown }>(take: T): T =>
+  typeof take.feedback === 'string' ? { ...take, feedback: legacyFeedback(take.feedback) } : take;
+
+export const overallScore = (feedback?: DirectorFeedback): number | null => {
+  if (!feedback?.scores) return null;
+  const values = FEEDBACK_CATEGORIES.map(({ key }) => feedback.scores![key].score);
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+};
+
+export interface ScoredTake {
+  take: DubbingPerformance;
+  overall: number;
+}
+
+export const scoredTakes = (takes: DubbingPerformance[]): ScoredTake[] =>
+  takes
+    .map(take => ({ take, overall: overallScore(take.feedback) }))
+    .filter((entry): entry is ScoredTake => entry.overall !== null)
+    .sort((a, b) => a.take.timestamp - b.take.timestamp);
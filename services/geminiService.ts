@@ -1,54 +1,293 @@
+import { GoogleGenAI, GenerateVideosOperation, GenerateContentParameters, GenerateContentResponse, FinishReason, Type, Modality } from "@google/genai";
+import { Scene, DialogueLine, DirectorFeedback, SyncAnalysis } from "../types";
+import { createId } from "./id";
+import { AIProvider, VideoOperationStatus, LineRewrite, GeneratedScene } from "./aiProvider";
+import { alignTranslation, languageName, syllableTarget, TranslatedScript } from "./translation";
+import { parseDirectorFeedback, MIN_SCORE, MAX_SCORE } from "./feedback";
+import { ServiceError, toServiceError } from "./errors";
+import { withRetry } from "./retry";
+import { formatSyncReport } from "./syncAnalysis";
+import { baseMimeType, FALLBACK_MIME_TYPE } from "./audioInput";
+import {
+  SceneOptions,
+  DIFFICULTY_LEVELS,
+  LINE_LENGTHS,
+  genreDirection,
+  normalizeSceneOptions,
+  matchCharacterNames,
+  checkGeneratedScene,
+  checkLineLengths
+} from "./sceneOptions";
 
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { Scene } from "../types";
-
-const getAI = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-export const generateScene = async (prompt: string, language: string): Promise<Scene> => {
-  const ai = getAI();
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: `Generate a short dramatic or comedic scene script based on the theme: "${prompt}". 
-    The script should be in ${language}. 
-    Limit to 4 lines of dialogue. 
-    Output as JSON.`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          title: { type: Type.STRING },
-          context: { type: Type.STRING },
-          dialogue: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                character: { type: Type.STRING },
-                text: { type: Type.STRING },
-                emotion: { type: Type.STRING }
-              },
-              required: ["character", "text", "emotion"]
+// Scene generation attempts before a scene that misses the request is reported.
+const MAX_SCENE_ATTEMPTS = 3;
+
+const SAFETY_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.IMAGE_PROHIBITED_CONTENT
+];
+
+type JsonObject = Record<string, unknown>;
+
+const expectObject = (value: unknown, what: string): JsonObject => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ServiceError('malformedOutput', `${what} is not a JSON object.`);
+  }
+  return value as JsonObject;
+};
+
+// Empty when the field is missing or not a string.
+const stringField = (object: JsonObject, key: string): string => {
+  const value = object[key];
+  return typeof value === 'string' ? value : '';
+};
+
+const toTranslatedScript = (value: unknown): TranslatedScript => {
+  const translated = expectObject(value, "The translation");
+  if (!Array.isArray(translated.lines)) throw new ServiceError('malformedOutput', "The translation has no lines.");
+  return {
+    title: stringField(translated, 'title'),
+    context: stringField(translated, 'context'),
+    lines: translated.lines.map((entry: unknown, index) => {
+      const line = expectObject(entry, `Translated line ${index + 1}`);
+      return { id: stringField(line, 'id'), text: stringField(line, 'text') };
+    })
+  };
+};
+
+/**
+ * Gemini/Veo backend. The key is read through getApiKey on every call because
+ * the AI Studio key picker can swap it while the app is running. Every
+ * failure is thrown as a ServiceError; see errors.ts.
+ */
+export const createGeminiProvider = (getApiKey: () => string | undefined): AIProvider => {
+  const getAI = () => {
+    const apiKey = getApiKey();
+    if (!apiKey) throw new ServiceError('auth', "No Gemini API key is configured.");
+    return new GoogleGenAI({ apiKey });
+  };
+
+  // Retries transient failures and turns safety blocks into errors instead of empty responses.
+  const generateContent = async (params: GenerateContentParameters): Promise<GenerateContentResponse> => {
+    const response = await withRetry(() => getAI().models.generateContent(params));
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) throw new ServiceError('safety', `The prompt was blocked (${blockReason}).`);
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (SAFETY_FINISH_REASONS.includes(finishReason)) throw new ServiceError('safety', `The response was blocked (${finishReason}).`);
+    return response;
+  };
+
+  // Callers narrow the reply themselves; the response schema is a request, not a guarantee.
+  const parseJson = (response: GenerateContentResponse): unknown => {
+    try {
+      return JSON.parse(response.text ?? '');
+    } catch (err) {
+      throw new ServiceError('malformedOutput', "The model returned invalid JSON.", err);
+    }
+  };
+
+  const describeCast = (options: SceneOptions) => {
+    if (options.characters.length === 0) return `Invent exactly ${options.characterCount} characters.`;
+    const named = options.characters.map(c => `- ${c.name}${c.description ? `: ${c.description}` : ''}`).join('\n');
+    const unnamed = options.characterCount - options.characters.length;
+    return `Use these characters, spelling their names exactly as given:\n${named}\n${unnamed > 0
+      ? `Invent ${unnamed} more character${unnamed === 1 ? '' : 's'} to make a cast of exactly ${options.characterCount}.`
+      : 'No other character may speak.'}`;
+  };
+
+  const requestScene = async (prompt: string, language: string, options: SceneOptions, corrections: string[]): Promise<Scene> => {
+    const difficulty = DIFFICULTY_LEVELS[options.difficulty];
+    const length = LINE_LENGTHS[options.lineLength];
+    const fullyNamed = options.characters.length === options.characterCount;
+    const response = await generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: `Generate a short scene script for dubbing practice based on the theme: "${prompt}".
+      Genre and tone: ${genreDirection(options.genre)}.
+      The script must be in ${languageName(language)}.
+      Write exactly ${options.lineCount} lines of dialogue; every character speaks at least once.
+      ${describeCast(options)}
+      Vocabulary: ${difficulty.vocabulary}. Delivery: ${difficulty.pace}; reflect it in each line's emotion.
+      Each line should be about ${length.minSyllables}-${length.maxSyllables} syllables long.
+      ${corrections.length > 0 ? `A previous attempt was rejected: ${corrections.join(' ')} Fix these problems.` : ''}
+      Output as JSON.`,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            title: { type: Type.STRING },
+            context: { type: Type.STRING },
+            characters: {
+              type: Type.ARRAY,
+              minItems: String(options.characterCount),
+              maxItems: String(options.characterCount),
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  name: { type: Type.STRING },
+                  description: { type: Type.STRING }
+                },
+                required: ["name", "description"]
+              }
+            },
+            dialogue: {
+              type: Type.ARRAY,
+              minItems: String(options.lineCount),
+              maxItems: String(options.lineCount),
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  character: fullyNamed
+                    ? { type: Type.STRING, enum: options.characters.map(c => c.name) }
+                    : { type: Type.STRING },
+                  text: { type: Type.STRING },
+                  emotion: { type: Type.STRING }
+                },
+                required: ["character", "text", "emotion"]
+              }
             }
-          }
-        },
-        required: ["title", "context", "dialogue"]
+          },
+          required: ["title", "context", "characters", "dialogue"]
+        }
       }
+    });
+
+    const sceneData = expectObject(parseJson(response), "The generated scene");
+    if (!Array.isArray(sceneData.dialogue) || sceneData.dialogue.length === 0) {
+      throw new ServiceError('malformedOutput', "The generated scene has no dialogue.");
     }
-  });
+    // Missing fields are left empty for checkGeneratedScene to report.
+    const dialogue = sceneData.dialogue.map((entry: unknown, index): DialogueLine => {
+      const line = expectObject(entry, `Generated line ${index + 1}`);
+      return { character: stringField(line, 'character'), text: stringField(line, 'text'), emotion: stringField(line, 'emotion') || 'neutral', id: createId() };
+    });
+    // The cast list only guides the model; characters live on the lines.
+    return matchCharacterNames({
+      title: stringField(sceneData, 'title'),
+      context: stringField(sceneData, 'context'),
+      dialogue,
+      id: createId(),
+      language
+    }, options);
+  };
 
-  const sceneData = JSON.parse(response.text);
-  return {
-    ...sceneData,
-    id: Math.random().toString(36).substr(2, 9),
-    language
+  /**
+   * Scenes that miss the request are regenerated with the problems spelled
+   * out. Line lengths are only estimated, so a scene that misses on length
+   * alone is kept and returned with warnings if no later attempt does better.
+   */
+  const generateScene = async (prompt: string, language: string, sceneOptions: SceneOptions): Promise<GeneratedScene> => {
+    const options = normalizeSceneOptions(sceneOptions);
+    let corrections: string[] = [];
+    let usable: GeneratedScene | null = null;
+    for (let attempt = 1; ; attempt++) {
+      const scene = await requestScene(prompt, language, options, corrections);
+      const problems = checkGeneratedScene(scene, options);
+      const warnings = checkLineLengths(scene, options);
+      if (problems.length === 0) {
+        if (warnings.length === 0) return { scene, warnings };
+        usable = { scene, warnings };
+      }
+      if (attempt >= MAX_SCENE_ATTEMPTS) {
+        if (usable) return usable;
+        throw new ServiceError('malformedOutput', `The generated scene didn't match the request after ${attempt} attempts: ${problems.join(' ')}`);
+      }
+      corrections = [...problems, ...warnings];
+    }
   };
-};
 
-export const generateSceneImage = async (title: string, context: string): Promise<string | null> => {
-  try {
-    const ai = getAI();
-    const response = await ai.models.generateContent({
+  const translateScene = async (scene: Scene, targetLanguage: string): Promise<Scene> => {
+    const sourceLanguage = scene.sourceLanguage ?? scene.language;
+    const lines = scene.dialogue.map(line => ({
+      id: line.id,
+      character: line.character,
+      emotion: line.emotion,
+      text: line.sourceText ?? line.text,
+      targetSyllables: syllableTarget({ ...line, text: line.sourceText ?? line.text }, sourceLanguage)
+    }));
+    const response = await generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: `Translate this ${languageName(sourceLanguage)} film scene into ${languageName(targetLanguage)} for dubbing.
+      Keep every line id, and return exactly ${lines.length} lines in the same order.
+      Keep the meaning and each line's emotion, and keep character names unchanged.
+      Each line must be speakable in roughly the same time as the original: aim for about targetSyllables syllables (within 20%).
+      Scene title: ${scene.title}
+      Context: ${scene.context}
+      Lines: ${JSON.stringify(lines)}`,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            title: { type: Type.STRING },
+            context: { type: Type.STRING },
+            lines: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  id: { type: Type.STRING },
+                  text: { type: Type.STRING }
+                },
+                required: ["id", "text"]
+              }
+            }
+          },
+          required: ["title", "context", "lines"]
+        }
+      }
+    });
+
+    // Always translate from the original text so re-translating doesn't compound drift.
+    const original = { ...scene, dialogue: scene.dialogue.map(line => ({ ...line, text: line.sourceText ?? line.text })) };
+    return alignTranslation(original, toTranslatedScript(parseJson(response)), targetLanguage);
+  };
+
+  const rewriteLine = async (scene: Scene, lineId: string, instruction: string): Promise<LineRewrite> => {
+    const index = scene.dialogue.findIndex(line => line.id === lineId);
+    if (index < 0) throw new ServiceError('unknown', "The line to rewrite is no longer in the scene.");
+    const line = scene.dialogue[index];
+    const script = scene.dialogue
+      .map((l, i) => `${i === index ? '>>> ' : ''}${l.character} (${l.emotion}): ${l.text}`)
+      .join('\n');
+    const response = await generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: `You are editing one line of a ${languageName(scene.language)} film scene for dubbing.
+      Scene title: ${scene.title}
+      Context: ${scene.context}
+      Script (the line to rewrite is marked >>>):
+      ${script}
+      ${instruction.trim()
+        ? `Rewrite line ${index + 1}, spoken by ${line.character}, following this direction: "${instruction.trim()}".`
+        : `Write a fresh alternative for line ${index + 1}, spoken by ${line.character}, that plays differently from the current one.`}
+      Keep it in ${languageName(scene.language)} and consistent with the lines around it.
+      Return the new text and a one or two word emotion for the delivery.`,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            text: { type: Type.STRING },
+            emotion: { type: Type.STRING }
+          },
+          required: ["text", "emotion"]
+        }
+      }
+    });
+
+    const rewrite = expectObject(parseJson(response), "The rewritten line");
+    const text = stringField(rewrite, 'text').trim();
+    if (!text) throw new ServiceError('malformedOutput', "The rewritten line is empty.");
+    return { text, emotion: stringField(rewrite, 'emotion').trim() || line.emotion };
+  };
+
+  // Resolves null when the model answers without an image.
+  const generateSceneImage = async (title: string, context: string): Promise<string | null> => {
+    const response = await generateContent({
       model: 'gemini-2.5-flash-image',
       contents: {
         parts: [{ text: `A high-quality cinematic concept art for a scene titled "${title}". Scene Context: ${context}. Cinematic lighting, detailed background, immersive atmosphere, 16:9 aspect ratio.` }],
@@ -59,36 +298,24 @@ export const generateSceneImage = async (title: string, context: string): Promis
     for (const part of response.candidates?.[0]?.content?.parts || []) {
       if (part.inlineData) return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
     }
-  } catch (error) { console.error("Image generation failed", error); }
-  return null;
-};
+    return null;
+  };
 
-export const generateSceneVideo = async (prompt: string, imageBase64?: string): Promise<string | null> => {
-  try {
+  const startSceneVideo = async (prompt: string, imageBase64?: string): Promise<string> => {
     const ai = getAI();
     const cleanBase64 = imageBase64?.replace(/^data:image\/\w+;base64,/, '');
 
-    let operation = await ai.models.generateVideos({
+    const operation = await withRetry(() => ai.models.generateVideos({
       model: 'veo-3.1-fast-generate-preview',
       prompt: `Cinematic movie scene: ${prompt}. Cinematic movement, dynamic lighting, professional color grading.`,
       image: cleanBase64 ? { imageBytes: cleanBase64, mimeType: 'image/png' } : undefined,
       config: { numberOfVideos: 1, resolution: '720p', aspectRatio: '16:9' }
-    });
-
-    while (!operation.done) {
-      await new Promise(resolve => setTimeout(resolve, 5000));
-      operation = await ai.operations.getVideosOperation({ operation: operation });
-    }
-
-    const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-    return downloadLink ? `${downloadLink}&key=${process.env.API_KEY}` : null;
-  } catch (error) { console.error("Video generation failed", error); }
-  return null;
-};
+    }));
+    return operationName(operation);
+  };
 
-export const transcribeAudio = async (audioBlob: Blob): Promise<string> => {
-  try {
-    const ai = getAI();
+  // An empty string means the model heard no speech; failures throw.
+  const transcribeAudio = async (audioBlob: Blob): Promise<string> => {
     const reader = new FileReader();
     const base64Promise = new Promise<string>((resolve) => {
       reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
@@ -97,30 +324,25 @@ export const transcribeAudio = async (audioBlob: Blob): Promise<string> => {
     const base64Data = await base64Promise;
 
     // Use Native Audio model for best transcription accuracy
-    const response = await ai.models.generateContent({
+    const response = await generateContent({
       model: 'gemini-2.5-flash-native-audio-preview-09-2025',
       contents: [
         {
           parts: [
-            { inlineData: { data: base64Data, mimeType: 'audio/webm' } },
+            { inlineData: { data: base64Data, mimeType: baseMimeType(audioBlob.type) || FALLBACK_MIME_TYPE } },
             { text: "Transcribe exactly what is said in this audio. If nothing is said, return an empty string. Output only the transcript text." }
           ]
         }
       ]
     });
     return response.text?.trim() || "";
-  } catch (error) {
-    console.error("Transcription failed", error);
-    return "";
-  }
-};
+  };
 
-export const generateLipSyncVideo = async (originalVideoUrl: string, transcription: string): Promise<string | null> => {
-  try {
+  const startLipSyncVideo = async (originalVideoUrl: string, transcription: string): Promise<string> => {
     const ai = getAI();
-    
+
     // We guide Veo to re-animate the mouth specifically for the dubbing transcript
-    let operation = await ai.models.generateVideos({
+    const operation = await withRetry(() => ai.models.generateVideos({
       model: 'veo-3.1-generate-preview',
       prompt: `Synchronize character lip movements to match the spoken words: "${transcription}". Maintain the same actor, lighting, and environment. The mouth should naturally follow the phonetic flow of the speech with high realism.`,
       config: {
@@ -128,39 +350,98 @@ export const generateLipSyncVideo = async (originalVideoUrl: string, transcripti
         resolution: '720p',
         aspectRatio: '16:9'
       }
-    });
+    }));
+    return operationName(operation);
+  };
+
+  const operationName = (operation: GenerateVideosOperation): string => {
+    if (!operation.name) throw new ServiceError('malformedOutput', "Veo did not return an operation to track.");
+    return operation.name;
+  };
 
-    while (!operation.done) {
-      await new Promise(resolve => setTimeout(resolve, 5000));
-      operation = await ai.operations.getVideosOperation({ operation: operation });
+  /**
+   * Rebuilds the operation from its name alone, so renders survive a reload.
+   * Not wrapped in withRetry: renderJobs.ts polls again after a retryable
+   * failure, which is the retry policy for polling.
+   */
+  const getVideoOperation = async (name: string): Promise<VideoOperationStatus> => {
+    const ai = getAI();
+    const pending = new GenerateVideosOperation();
+    pending.name = name;
+    const operation = await ai.operations.getVideosOperation({ operation: pending }).catch(err => { throw toServiceError(err); });
+    if (!operation.done) return { done: false };
+    if (operation.error) {
+      // Surface the failure with its kind, e.g. a billing error from an unpaid key.
+      const error = toServiceError({ message: String(operation.error.message ?? "Veo reported a failed render."), code: operation.error.code });
+      return { done: true, error: error.message, errorKind: error.kind };
     }
 
-    const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-    return downloadLink ? `${downloadLink}&key=${process.env.API_KEY}` : null;
-  } catch (error) {
-    console.error("Lip sync generation failed", error);
-    return null;
-  }
-};
+    // The bare link is what gets stored; videoSourceUrl adds the key when it's played or fetched.
+    return { done: true, videoUrl: operation.response?.generatedVideos?.[0]?.video?.uri ?? null };
+  };
 
-export const getPerformanceFeedback = async (scene: Scene, recordingDuration: number, transcript: string): Promise<string> => {
-  const ai = getAI();
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: `The user just performed a dubbing of this scene: "${scene.title}". 
-    Context: ${scene.context}. 
-    User's actual words (transcribed): "${transcript}".
-    Performance duration: ${recordingDuration.toFixed(1)}s. 
-    Provide constructive, professional feedback as a voice director. Keep it concise (3 sentences).`,
-  });
-
-  return response.text || "Solid performance! Your timing is getting better.";
-};
+  // Veo download links only work with the API key attached.
+  const videoSourceUrl = (videoUrl: string): string => {
+    const apiKey = getApiKey();
+    if (!apiKey || !videoUrl.startsWith('https://generativelanguage.googleapis.com/')) return videoUrl;
+    const url = new URL(videoUrl);
+    url.searchParams.set('key', apiKey);
+    return url.toString();
+  };
 
-export const generateReferenceAudio = async (text: string, voice: string = 'Kore'): Promise<Uint8Array | null> => {
-  try {
-    const ai = getAI();
-    const response = await ai.models.generateContent({
+  const scoreSchema = {
+    type: Type.OBJECT,
+    properties: {
+      score: { type: Type.INTEGER },
+      rationale: { type: Type.STRING }
+    },
+    required: ["score", "rationale"]
+  };
+
+  const getPerformanceFeedback = async (scene: Scene, line: DialogueLine, recordingDuration: number, transcript: string, sync?: SyncAnalysis): Promise<DirectorFeedback> => {
+    const measured = sync
+      ? `Measured timing from voice-activity analysis (trust these numbers over the duration alone for the timing score):\n${formatSyncReport(sync)}`
+      : '';
+    const response = await generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: `The user just performed a dubbing of one line from this scene: "${scene.title}". 
+      Context: ${scene.context}. 
+      Line being dubbed: ${line.character} (${line.emotion}): "${line.text}".
+      User's actual words (transcribed): "${transcript}".
+      Performance duration: ${recordingDuration.toFixed(1)}s. 
+      ${measured}
+      As a voice director, score the take from ${MIN_SCORE} (poor) to ${MAX_SCORE} (broadcast ready) on timing, script accuracy,
+      emotional delivery (against the "${line.emotion}" direction) and pronunciation, each with a one-sentence rationale.
+      Then give one concrete, actionable note for this line and a one-sentence summary.`,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            scores: {
+              type: Type.OBJECT,
+              properties: {
+                timing: scoreSchema,
+                scriptAccuracy: scoreSchema,
+                emotionalDelivery: scoreSchema,
+                pronunciation: scoreSchema
+              },
+              required: ["timing", "scriptAccuracy", "emotionalDelivery", "pronunciation"]
+            },
+            lineNote: { type: Type.STRING },
+            summary: { type: Type.STRING }
+          },
+          required: ["scores", "lineNote", "summary"]
+        }
+      }
+    });
+
+    return parseDirectorFeedback(parseJson(response));
+  };
+
+  // Resolves null when the model answers without audio.
+  const generateReferenceAudio = async (text: string, voice: string = 'Kore'): Promise<Uint8Array | null> => {
+    const response = await generateContent({
       model: "gemini-2.5-flash-preview-tts",
       contents: [{ parts: [{ text }] }],
       config: {
@@ -172,15 +453,30 @@ export const generateReferenceAudio = async (text: string, voice: string = 'Kore
     });
 
     const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (base64Audio) {
-      const binaryString = atob(base64Audio);
-      const len = binaryString.length;
-      const bytes = new Uint8Array(len);
-      for (let i = 0; i < len; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-      }
-      return bytes;
+    if (!base64Audio) return null;
+    const binaryString = atob(base64Audio);
+    const len = binaryString.length;
+    const bytes = new Uint8Array(len);
+    for (let i = 0; i < len; i++) {
+      bytes[i] = binaryString.charCodeAt(i);
     }
-  } catch (error) { console.error("TTS failed", error); }
-  return null;
+    return bytes;
+  };
+
+  return {
+    id: 'gemini',
+    label: 'Gemini 3 + Veo Pipeline',
+    requiresApiKey: true,
+    generateScene,
+    translateScene,
+    rewriteLine,
+    generateSceneImage,
+    startSceneVideo,
+    startLipSyncVideo,
+    getVideoOperation,
+    videoSourceUrl,
+    transcribeAudio,
+    getPerformanceFeedback,
+    generateReferenceAudio
+  };
 };
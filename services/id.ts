@@ -0,0 +1 @@
+export const createId = (): string => Math.random().toString(36).substr(2, 9);
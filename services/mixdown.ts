@@ -0,0 +1,145 @@
+
+import { Scene, DubbingPerformance, DialogueLine, LineMix } from "../types";
+import { buildSceneTiming } from "./timing";
+import { decodeBlob } from "./playbackEngine";
+import { ReferenceClip } from "./referenceCache";
+import { dbToGain, mixToMono } from "./audioEdit";
+import { pcmToWav, floatToPcm16, floatToPcm24, WavBitDepth } from "./wav";
+import { createZip } from "./zip";
+import { safeFileName } from "./download";
+
+/**
+ * Scene mixdown: every line's circled (or latest) take placed on the scene
+ * timeline, optionally with the reference read for lines nobody has dubbed
+ * yet, rendered locally through an OfflineAudioContext. The full mix and
+ * per-character stems share one length so they line up in an editor.
+ */
+
+export const MIX_SAMPLE_RATE = 48000;
+// Silence left after the last line so the final word isn't cut off.
+export const MIX_TAIL_SECONDS = 0.5;
+export const MIX_GAIN_RANGE_DB = 12;
+export const MIX_NUDGE_SECONDS = 0.05;
+
+export const DEFAULT_LINE_MIX: LineMix = { gainDb: 0, offset: 0 };
+
+export interface MixClip {
+  lineId: string;
+  character: string;
+  source: 'take' | 'reference';
+  takeId?: string;
+  // Seconds on the mix timeline where the clip's audio begins, offset nudges included.
+  start: number;
+  gainDb: number;
+  buffer: AudioBuffer;
+}
+
+export interface MixdownOptions {
+  includeReferences: boolean;
+  // Fetches (and usually persists) the reference read for a line.
+  loadReference: (line: DialogueLine) => Promise<ReferenceClip | null>;
+}
+
+export interface Stem {
+  character: string;
+  buffer: AudioBuffer;
+}
+
+export const mixdownLabel = (scene: Scene) => `${scene.title} · mixdown`;
+
+// Playback id for a scene's mix; the scene monitor follows audio playing under it.
+export const mixdownPlaybackId = (scene: Scene) => `mixdown:${scene.id}`;
+
+export const getLineMix = (scene: Scene, lineId: string): LineMix => scene.mix?.[lineId] ?? DEFAULT_LINE_MIX;
+
+export const setLineMix = (scene: Scene, lineId: string, patch: Partial<LineMix>): Scene => ({
+  ...scene,
+  mix: { ...scene.mix, [lineId]: { ...getLineMix(scene, lineId), ...patch } }
+});
+
+/**
+ * Resolves the audio for every line and where it sits. Reference reads are
+ * loaded before the timing is built, so lines voiced by a reference get the
+ * reference's real length rather than a reading-speed estimate.
+ */
+export const collectMixClips = async (
+  scene: Scene,
+  takes: DubbingPerformance[],
+  referenceAudio: Record<string, Uint8Array>,
+  { includeReferences, loadReference }: MixdownOptions
+): Promise<MixClip[]> => {
+  const timing = buildSceneTiming(scene, takes, referenceAudio);
+  const references = new Map<string, AudioBuffer>();
+  const referencePcm = { ...referenceAudio };
+  if (includeReferences) {
+    for (const line of scene.dialogue) {
+      if (timing.find(t => t.lineId === line.id)?.takeId) continue;
+      const clip = await loadReference(line);
+      if (!clip) continue;
+      references.set(line.id, clip.buffer);
+      referencePcm[line.id] = clip.pcm;
+    }
+  }
+
+  const clips: MixClip[] = [];
+  for (const lineTiming of buildSceneTiming(scene, takes, referencePcm)) {
+    const line = scene.dialogue[lineTiming.index];
+    const { gainDb, offset } = getLineMix(scene, line.id);
+    const take = lineTiming.takeId ? takes.find(t => t.id === lineTiming.takeId) : undefined;
+    const buffer = take ? await decodeBlob(take.audioBlob) : references.get(line.id);
+    if (!buffer) continue;
+    clips.push({
+      lineId: line.id,
+      character: line.character,
+      source: take ? 'take' : 'reference',
+      takeId: take?.id,
+      // Takes start early by their count-in so the speech lands on the line's slot.
+      start: lineTiming.start - (lineTiming.takeOffset ?? 0) + offset,
+      gainDb,
+      buffer
+    });
+  }
+  return clips;
+};
+
+export const mixDuration = (clips: MixClip[]): number =>
+  clips.reduce((end, clip) => Math.max(end, clip.start + clip.buffer.duration), 0) + MIX_TAIL_SECONDS;
+
+// Clips nudged before zero lose their head rather than shifting the whole mix.
+const renderClips = async (clips: MixClip[], duration: number): Promise<AudioBuffer> => {
+  const offline = new OfflineAudioContext(1, Math.max(1, Math.ceil(duration * MIX_SAMPLE_RATE)), MIX_SAMPLE_RATE);
+  for (const clip of clips) {
+    const node = offline.createBufferSource();
+    node.buffer = clip.buffer;
+    const gain = offline.createGain();
+    gain.gain.value = dbToGain(clip.gainDb);
+    node.connect(gain).connect(offline.destination);
+    node.start(Math.max(0, clip.start), Math.max(0, -clip.start));
+  }
+  return offline.startRendering();
+};
+
+export const renderMixdown = (clips: MixClip[]): Promise<AudioBuffer> => renderClips(clips, mixDuration(clips));
+
+export const renderStems = async (clips: MixClip[]): Promise<Stem[]> => {
+  const duration = mixDuration(clips);
+  const characters = Array.from(new Set(clips.map(clip => clip.character)));
+  const stems: Stem[] = [];
+  for (const character of characters) {
+    stems.push({ character, buffer: await renderClips(clips.filter(clip => clip.character === character), duration) });
+  }
+  return stems;
+};
+
+const wavBytes = (buffer: AudioBuffer, bitDepth: WavBitDepth): Uint8Array => {
+  const samples = mixToMono(buffer);
+  const pcm = bitDepth === 24 ? floatToPcm24(samples) : floatToPcm16(samples);
+  return pcmToWav(pcm, buffer.sampleRate, 1, bitDepth);
+};
+
+export const encodeWav = (buffer: AudioBuffer, bitDepth: WavBitDepth): Blob =>
+  new Blob([wavBytes(buffer, bitDepth)], { type: 'audio/wav' });
+
+// One WAV per character in a ZIP, named after the scene.
+export const encodeStemsZip = (stems: Stem[], baseName: string, bitDepth: WavBitDepth): Blob =>
+  createZip(stems.map(stem => ({ name: `${baseName}_${safeFileName(stem.character)}.wav`, data: wavBytes(stem.buffer, bitDepth) })));
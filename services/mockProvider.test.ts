@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { DialogueLine } from '../types';
+import { createMockProvider } from './mockProvider';
+import { DEFAULT_SCENE_OPTIONS, checkGeneratedScene, SceneOptions } from './sceneOptions';
+import { parseDirectorFeedback } from './feedback';
+
+// Skips the simulated latency.
+const settle = async <T>(promise: Promise<T>): Promise<T> => {
+  await vi.runAllTimersAsync();
+  return promise;
+};
+
+describe('createMockProvider', () => {
+  const provider = createMockProvider();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('needs no API key', () => {
+    expect(provider.requiresApiKey).toBe(false);
+  });
+
+  it('generates the same scene for the same prompt', async () => {
+    const first = await settle(provider.generateScene('a heist', 'en', DEFAULT_SCENE_OPTIONS));
+    const second = await settle(provider.generateScene('a heist', 'en', DEFAULT_SCENE_OPTIONS));
+    expect(second).toEqual(first);
+  });
+
+  it('generates scenes that pass the scene check', async () => {
+    const requests: SceneOptions[] = [
+      DEFAULT_SCENE_OPTIONS,
+      { ...DEFAULT_SCENE_OPTIONS, lineCount: 12, characterCount: 6, lineLength: 'long' },
+      { ...DEFAULT_SCENE_OPTIONS, lineCount: 3, characterCount: 1, lineLength: 'short', genre: 'noir' },
+      { ...DEFAULT_SCENE_OPTIONS, characters: [{ name: 'Mara', description: '' }, { name: 'Pip', description: 'a waiter' }] }
+    ];
+    for (const options of requests) {
+      const { scene, warnings } = await settle(provider.generateScene('a heist', 'en', options));
+      expect(checkGeneratedScene(scene, options)).toEqual([]);
+      expect(warnings).toEqual([]);
+    }
+  });
+
+  it('translates every line and keeps the source text', async () => {
+    const { scene } = await settle(provider.generateScene('a heist', 'en', DEFAULT_SCENE_OPTIONS));
+    const translated = await settle(provider.translateScene(scene, 'ja'));
+    expect(translated.language).toBe('ja');
+    expect(translated.dialogue.map(line => line.text)).toEqual(scene.dialogue.map(line => `[ja] ${line.text}`));
+    expect(translated.dialogue.map(line => line.sourceText)).toEqual(scene.dialogue.map(line => line.text));
+  });
+
+  it('rewrites lines shorter or with a new emotion', async () => {
+    const { scene } = await settle(provider.generateScene('a heist', 'en', { ...DEFAULT_SCENE_OPTIONS, lineLength: 'long' }));
+    const line = scene.dialogue[0];
+    const shorter = await settle(provider.rewriteLine(scene, line.id, 'Shorter'));
+    expect(shorter.text.length).toBeLessThan(line.text.length);
+    expect(await settle(provider.rewriteLine(scene, line.id, 'much angrier'))).toEqual({ text: line.text, emotion: 'angrier' });
+    const missing = expect(provider.rewriteLine(scene, 'missing', '')).rejects.toMatchObject({ kind: 'unknown', message: expect.stringContaining('no longer in the scene') });
+    await vi.runAllTimersAsync();
+    await missing;
+  });
+
+  it('returns feedback in the director feedback shape', async () => {
+    const { scene } = await settle(provider.generateScene('a heist', 'en', DEFAULT_SCENE_OPTIONS));
+    const line: DialogueLine = scene.dialogue[0];
+    const feedback = await settle(provider.getPerformanceFeedback(scene, line, 2, 'that case is mine'));
+    expect(parseDirectorFeedback(feedback)).toEqual(feedback);
+  });
+
+  it('fails video renders with an explanation', async () => {
+    const operation = await provider.startSceneVideo('a heist');
+    expect(await settle(provider.getVideoOperation(operation))).toMatchObject({ done: true, videoUrl: null });
+  });
+});
@@ -0,0 +1,247 @@
+
+import { Scene, DialogueLine, DirectorFeedback, SyncAnalysis, REFERENCE_SAMPLE_RATE } from "../types";
+import { AIProvider, VideoOperationStatus, LineRewrite, GeneratedScene } from "./aiProvider";
+import { alignTranslation } from "./translation";
+import { createId } from "./id";
+import { ServiceError } from "./errors";
+import { SceneOptions, LineLength, normalizeSceneOptions, checkLineLengths } from "./sceneOptions";
+
+/**
+ * Offline backend for development and demos. Every result is derived from the
+ * inputs with a string hash, so the same prompt always yields the same scene,
+ * the same text always yields the same tone audio, and so on.
+ */
+
+const SIMULATED_LATENCY_MS = 400;
+
+const delay = () => new Promise(resolve => setTimeout(resolve, SIMULATED_LATENCY_MS));
+
+const hash = (text: string): number => {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+};
+
+const CANNED_SCENES: Omit<Scene, 'id' | 'language'>[] = [
+  {
+    title: 'The Last Train',
+    context: 'A rain-soaked platform at midnight. Two strangers realise they are chasing the same suitcase.',
+    dialogue: [
+      { id: 'line-1', character: 'MARA', text: 'That case is mine. I have the ticket to prove it.', emotion: 'defiant' },
+      { id: 'line-2', character: 'JONAS', text: 'Funny. So do I, and mine is stamped tonight.', emotion: 'amused' },
+      { id: 'line-3', character: 'MARA', text: 'Then one of us is about to miss a very important train.', emotion: 'tense' },
+      { id: 'line-4', character: 'JONAS', text: 'Or we open it together and find out who is lying.', emotion: 'conspiratorial' }
+    ]
+  },
+  {
+    title: 'Kitchen Nightmare',
+    context: 'A cramped restaurant kitchen five minutes before a food critic arrives.',
+    dialogue: [
+      { id: 'line-1', character: 'CHEF', text: 'Who put the soufflé next to the open window?', emotion: 'furious' },
+      { id: 'line-2', character: 'PIP', text: 'It looked warm! I thought it needed some air.', emotion: 'panicked' },
+      { id: 'line-3', character: 'CHEF', text: 'Air is what it has now. Air and nothing else.', emotion: 'deadpan' },
+      { id: 'line-4', character: 'PIP', text: 'I can make another one. Probably. Maybe.', emotion: 'nervous' }
+    ]
+  },
+  {
+    title: 'Signal Lost',
+    context: 'The bridge of a drifting starship after the main reactor fails.',
+    dialogue: [
+      { id: 'line-1', character: 'CAPTAIN ROY', text: 'Status report. And please tell me it is good news.', emotion: 'weary' },
+      { id: 'line-2', character: 'ENSIGN TALA', text: 'The good news is we are not moving. That is also the bad news.', emotion: 'sheepish' },
+      { id: 'line-3', character: 'CAPTAIN ROY', text: 'Route every spare watt to the beacon. Someone has to hear us.', emotion: 'determined' },
+      { id: 'line-4', character: 'ENSIGN TALA', text: 'Beacon is live, Captain. Now we wait.', emotion: 'hopeful' }
+    ]
+  }
+];
+
+const STAND_IN_NAMES = ['ALEX', 'SAM', 'RIVER', 'NOOR', 'KAI', 'JUNE'];
+
+// Short lines keep their first sentence; long lines run on into the next one.
+const fitLineLength = (text: string, next: string, lineLength: LineLength): string => {
+  if (lineLength === 'long') return `${text} ${next}`;
+  if (lineLength === 'short') return (text.match(/[^.!?]+[.!?]*/) || [text])[0].trim();
+  return text;
+};
+
+const MOCK_TRANSCRIPTS = [
+  'That case is mine, I have the ticket to prove it.',
+  'Who put the souffle next to the window?',
+  'Status report, and tell me it is good news.',
+  'I can make another one, probably.'
+];
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const placeholderImage = (title: string, context: string): string => {
+  const hue = hash(title) % 360;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="1280" height="720" viewBox="0 0 1280 720">
+<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">
+<stop offset="0" stop-color="hsl(${hue},60%,25%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},60%,10%)"/>
+</linearGradient></defs>
+<rect width="1280" height="720" fill="url(#g)"/>
+<text x="640" y="340" font-family="sans-serif" font-size="64" font-weight="bold" fill="#fff" text-anchor="middle">${escapeXml(title)}</text>
+<text x="640" y="400" font-family="sans-serif" font-size="24" fill="#cbd5e1" text-anchor="middle">${escapeXml(context.slice(0, 90))}</text>
+</svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+/**
+ * A syllable-paced tone whose base pitch depends on the voice and whose
+ * length follows the text, close enough to speech for timing work.
+ */
+const synthesizeTone = (text: string, voice: string): Uint8Array => {
+  const seconds = Math.max(0.8, text.length / 15);
+  const sampleCount = Math.round(seconds * REFERENCE_SAMPLE_RATE);
+  const baseFrequency = 140 + (hash(voice) % 120);
+  const syllableRate = 4 + (hash(text) % 3);
+  const pcm = new Int16Array(sampleCount);
+  for (let i = 0; i < sampleCount; i++) {
+    const t = i / REFERENCE_SAMPLE_RATE;
+    const envelope = Math.max(0, Math.sin(Math.PI * syllableRate * t)) * Math.min(1, t * 20, (seconds - t) * 20);
+    const frequency = baseFrequency * (1 + 0.1 * Math.sin(2 * Math.PI * 0.7 * t));
+    pcm[i] = Math.round(envelope * 0.3 * 32767 * Math.sin(2 * Math.PI * frequency * t));
+  }
+  return new Uint8Array(pcm.buffer);
+};
+
+export const createMockProvider = (): AIProvider => {
+  /**
+   * Builds the requested shape from the canned scenes: named characters
+   * first, then stand-ins, taking turns line by line so everyone speaks.
+   * Difficulty has no offline equivalent and is ignored.
+   */
+  const generateScene = async (prompt: string, language: string, sceneOptions: SceneOptions): Promise<GeneratedScene> => {
+    await delay();
+    const options = normalizeSceneOptions(sceneOptions);
+    const template = CANNED_SCENES[hash(prompt + options.genre) % CANNED_SCENES.length];
+    const sceneId = `mock-${hash(prompt + language + JSON.stringify(options)).toString(36)}`;
+    const named = options.characters.map(character => character.name);
+    const standIns = [...template.dialogue.map(line => line.character), ...STAND_IN_NAMES]
+      .filter((name, i, names) => names.indexOf(name) === i && !named.some(n => n.toLowerCase() === name.toLowerCase()));
+    const cast = [...named, ...standIns].slice(0, options.characterCount);
+    // The template's own lines first, then the other scenes' for longer requests.
+    const pool = [...template.dialogue, ...CANNED_SCENES.filter(other => other !== template).flatMap(other => other.dialogue)];
+
+    const scene: Scene = {
+      title: template.title,
+      context: template.context,
+      dialogue: Array.from({ length: options.lineCount }, (_, i) => ({
+        id: `${sceneId}-line-${i + 1}`,
+        character: cast[i % cast.length],
+        text: fitLineLength(pool[i % pool.length].text, pool[(i + 1) % pool.length].text, options.lineLength),
+        emotion: pool[i % pool.length].emotion
+      })),
+      id: sceneId,
+      language
+    };
+    return { scene, warnings: checkLineLengths(scene, options) };
+  };
+
+  // Tags each original line with the target language code, e.g. "[ja] That case is mine."
+  const translateScene = async (scene: Scene, targetLanguage: string): Promise<Scene> => {
+    await delay();
+    return alignTranslation(scene, {
+      title: scene.title,
+      context: scene.context,
+      lines: scene.dialogue.map(line => ({ id: line.id, text: `[${targetLanguage}] ${line.sourceText ?? line.text}` }))
+    }, targetLanguage);
+  };
+
+  /**
+   * "Shorter" keeps the first sentence, or the first half of a single one;
+   * any other direction becomes the emotion; no direction swaps in a canned
+   * line picked by hash.
+   */
+  const rewriteLine = async (scene: Scene, lineId: string, instruction: string): Promise<LineRewrite> => {
+    await delay();
+    const line = scene.dialogue.find(l => l.id === lineId);
+    if (!line) throw new ServiceError('unknown', "The line to rewrite is no longer in the scene.");
+    const direction = instruction.trim().toLowerCase();
+    if (!direction) {
+      const alternatives = CANNED_SCENES.flatMap(template => template.dialogue).filter(l => l.text !== line.text);
+      const pick = alternatives[hash(line.id + line.text) % alternatives.length];
+      return { text: pick.text, emotion: pick.emotion };
+    }
+    if (direction.includes('short')) {
+      const sentences = line.text.match(/[^.!?]+[.!?]*/g) || [line.text];
+      if (sentences.length > 1) return { text: sentences[0].trim(), emotion: line.emotion };
+      const words = line.text.split(/\s+/);
+      return { text: `${words.slice(0, Math.ceil(words.length / 2)).join(' ').replace(/[,;:.!?]$/, '')}.`, emotion: line.emotion };
+    }
+    return { text: line.text, emotion: direction.split(/\s+/).pop()! };
+  };
+
+  const generateSceneImage = async (title: string, context: string): Promise<string | null> => {
+    await delay();
+    return placeholderImage(title, context);
+  };
+
+  // There is no offline video model: renders start, then fail on the first
+  // poll and the studio keeps showing the concept image.
+  const startSceneVideo = async (): Promise<string> => `mock/operations/${createId()}`;
+
+  const startLipSyncVideo = async (): Promise<string> => `mock/operations/${createId()}`;
+
+  const getVideoOperation = async (): Promise<VideoOperationStatus> => {
+    await delay();
+    return { done: true, videoUrl: null, error: "Video rendering isn't available in offline mode." };
+  };
+
+  const transcribeAudio = async (audioBlob: Blob): Promise<string> => {
+    await delay();
+    return MOCK_TRANSCRIPTS[audioBlob.size % MOCK_TRANSCRIPTS.length];
+  };
+
+  const getPerformanceFeedback = async (_scene: Scene, line: DialogueLine, recordingDuration: number, transcript: string, sync?: SyncAnalysis): Promise<DirectorFeedback> => {
+    await delay();
+    // Measured speech length against the target when available, else the raw duration against an estimate.
+    const target = sync ? sync.targetDuration : Math.max(1, line.text.length / 15);
+    const performed = sync ? target + sync.overrun : recordingDuration;
+    const drift = Math.abs(performed - target) / target;
+    const pacing = performed > target * 1.3
+      ? 'You are running long; tighten the pauses.'
+      : performed < target * 0.7
+        ? 'You rushed it; let the line breathe.'
+        : 'Your pacing sits right on the picture.';
+    const words = transcript.split(/\s+/).filter(Boolean).length;
+    const scriptWords = line.text.split(/\s+/).length;
+    const seed = hash(transcript + line.id);
+    return {
+      scores: {
+        timing: { score: Math.max(1, Math.round(10 - drift * 10)), rationale: pacing },
+        scriptAccuracy: { score: Math.max(1, 10 - Math.abs(words - scriptWords)), rationale: `${words} words heard against ${scriptWords} in the script.` },
+        emotionalDelivery: { score: 5 + (seed % 5), rationale: `The ${line.emotion} colour is there but could land harder.` },
+        pronunciation: { score: 6 + (seed % 4), rationale: 'Consonants are clear; watch the vowel on the final word.' }
+      },
+      lineNote: `Push the ${line.emotion} colour a little further on the last beat.`,
+      summary: pacing
+    };
+  };
+
+  const generateReferenceAudio = async (text: string, voice: string = 'Kore'): Promise<Uint8Array | null> => {
+    await delay();
+    return synthesizeTone(text, voice);
+  };
+
+  return {
+    id: 'mock',
+    label: 'Offline Mock Provider',
+    requiresApiKey: false,
+    generateScene,
+    translateScene,
+    rewriteLine,
+    generateSceneImage,
+    startSceneVideo,
+    startLipSyncVideo,
+    getVideoOperation,
+    videoSourceUrl: videoUrl => videoUrl,
+    transcribeAudio,
+    getPerformanceFeedback,
+    generateReferenceAudio
+  };
+};
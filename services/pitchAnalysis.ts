@@ -0,0 +1,196 @@
+
+import { PitchComparison, PitchContour } from "../types";
+import { mixToMono, measureLevels, gainToDb } from "./audioEdit";
+import { detectSpeechSegments } from "./syncAnalysis";
+
+/**
+ * Local intonation analysis: YIN pitch tracking and frame energy for a take
+ * and its reference read, each resampled to CONTOUR_POINTS across its own
+ * speech so reads of different lengths line up. Pitch is in semitones from
+ * each speaker's median, so a deep voice can still match a high reference.
+ */
+
+export const CONTOUR_POINTS = 100;
+// Contour energy is clamped to this many dB below the loudest point.
+export const ENERGY_FLOOR_DB = -40;
+
+// Audio is decimated to roughly this rate before tracking; speech pitch sits far below it.
+const ANALYSIS_RATE = 16000;
+const FRAME_SECONDS = 0.04;
+const HOP_SECONDS = 0.01;
+const MIN_F0 = 70;
+const MAX_F0 = 500;
+const YIN_THRESHOLD = 0.15;
+// Quieter frames are left unvoiced so room noise doesn't produce a pitch.
+const VOICED_FLOOR_DB = -50;
+// Contours need this many points voiced in both reads to be compared.
+const MIN_SHARED_POINTS = 10;
+
+export const TONAL_LANGUAGES = ['zh'];
+export const PITCH_ACCENT_LANGUAGES = ['ja'];
+
+interface ContourFrame {
+  time: number;
+  f0: number | null;
+  energyDb: number;
+}
+
+// Boxcar-averaged decimation; crude, but enough to keep the tracker fast.
+const decimate = (samples: Float32Array, sampleRate: number): { samples: Float32Array; sampleRate: number } => {
+  const factor = Math.max(1, Math.floor(sampleRate / ANALYSIS_RATE));
+  if (factor === 1) return { samples, sampleRate };
+  const out = new Float32Array(Math.floor(samples.length / factor));
+  for (let i = 0; i < out.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) sum += samples[i * factor + j];
+    out[i] = sum / factor;
+  }
+  return { samples: out, sampleRate: sampleRate / factor };
+};
+
+// YIN: cumulative-mean-normalised difference, first dip under the threshold, parabolic refinement.
+const yinPitch = (frame: Float32Array, sampleRate: number): number | null => {
+  const minLag = Math.floor(sampleRate / MAX_F0);
+  const maxLag = Math.min(Math.ceil(sampleRate / MIN_F0), Math.floor(frame.length / 2));
+  const span = frame.length - maxLag;
+  const cmnd = new Float32Array(maxLag + 1);
+  cmnd[0] = 1;
+  let running = 0;
+  for (let lag = 1; lag <= maxLag; lag++) {
+    let diff = 0;
+    for (let i = 0; i < span; i++) {
+      const delta = frame[i] - frame[i + lag];
+      diff += delta * delta;
+    }
+    running += diff;
+    cmnd[lag] = running > 0 ? (diff * lag) / running : 1;
+  }
+
+  for (let lag = minLag; lag < maxLag; lag++) {
+    if (cmnd[lag] >= YIN_THRESHOLD) continue;
+    while (lag + 1 < maxLag && cmnd[lag + 1] < cmnd[lag]) lag++;
+    const [a, b, c] = [cmnd[lag - 1], cmnd[lag], cmnd[lag + 1]];
+    const shift = (a - 2 * b + c) !== 0 ? (a - c) / (2 * (a - 2 * b + c)) : 0;
+    return sampleRate / (lag + shift);
+  }
+  return null;
+};
+
+const trackFrames = (source: Float32Array, sourceRate: number): ContourFrame[] => {
+  const { samples, sampleRate } = decimate(source, sourceRate);
+  const frameSize = Math.round(FRAME_SECONDS * sampleRate);
+  const hop = Math.round(HOP_SECONDS * sampleRate);
+  const frames: ContourFrame[] = [];
+  for (let offset = 0; offset + frameSize <= samples.length; offset += hop) {
+    const frame = samples.subarray(offset, offset + frameSize);
+    const energyDb = gainToDb(measureLevels(frame).rms);
+    frames.push({
+      time: (offset + frameSize / 2) / sampleRate,
+      f0: energyDb >= VOICED_FLOOR_DB ? yinPitch(frame, sampleRate) : null,
+      energyDb
+    });
+  }
+  return frames;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const percentile = (values: number[], fraction: number) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))];
+};
+
+// Null when the read has no detectable speech.
+export const extractContour = (buffer: AudioBuffer): PitchContour | null => {
+  const samples = mixToMono(buffer);
+  const segments = detectSpeechSegments(samples, buffer.sampleRate);
+  if (segments.length === 0) return null;
+  const start = segments[0].start;
+  const end = segments[segments.length - 1].end;
+  const frames = trackFrames(samples, buffer.sampleRate).filter(frame => frame.time >= start && frame.time <= end);
+  if (frames.length === 0) return null;
+
+  const voiced = frames.map(frame => frame.f0).filter((f0): f0 is number => f0 !== null);
+  const median = voiced.length ? percentile(voiced, 0.5) : 0;
+  const loudest = Math.max(...frames.map(frame => frame.energyDb));
+
+  const pitch: (number | null)[] = [];
+  const energy: number[] = [];
+  for (let point = 0; point < CONTOUR_POINTS; point++) {
+    const time = start + ((point + 0.5) / CONTOUR_POINTS) * (end - start);
+    const frame = frames[Math.min(frames.length - 1, Math.max(0, Math.round((time - frames[0].time) / HOP_SECONDS)))];
+    // Rounded to a hundredth; contours are saved with the take.
+    pitch.push(frame.f0 !== null && median > 0 ? round(12 * Math.log2(frame.f0 / median)) : null);
+    energy.push(round(Math.max(ENERGY_FLOOR_DB, frame.energyDb - loudest)));
+  }
+  return { pitch, energy };
+};
+
+const correlation = (a: number[], b: number[]): number => {
+  const meanA = a.reduce((sum, v) => sum + v, 0) / a.length;
+  const meanB = b.reduce((sum, v) => sum + v, 0) / b.length;
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < a.length; i++) {
+    covariance += (a[i] - meanA) * (b[i] - meanB);
+    varianceA += (a[i] - meanA) ** 2;
+    varianceB += (b[i] - meanB) ** 2;
+  }
+  return varianceA > 0 && varianceB > 0 ? covariance / Math.sqrt(varianceA * varianceB) : 0;
+};
+
+// Spread of the middle 80% of voiced pitch, in semitones.
+const pitchRange = (pitch: (number | null)[]): number | null => {
+  const voiced = pitch.filter((p): p is number => p !== null);
+  return voiced.length >= MIN_SHARED_POINTS ? percentile(voiced, 0.9) - percentile(voiced, 0.1) : null;
+};
+
+const toScore = (r: number) => Math.round(Math.max(0, r) * 100);
+
+export const comparePitch = (reference: PitchContour, take: PitchContour): PitchComparison => {
+  const shared = reference.pitch
+    .map((ref, i) => [ref, take.pitch[i]] as const)
+    .filter((pair): pair is readonly [number, number] => pair[0] !== null && pair[1] !== null);
+  const referenceRange = pitchRange(reference.pitch);
+  const takeRange = pitchRange(take.pitch);
+  return {
+    reference,
+    take,
+    intonation: shared.length >= MIN_SHARED_POINTS
+      ? toScore(correlation(shared.map(([ref]) => ref), shared.map(([, performed]) => performed)))
+      : null,
+    emphasis: toScore(correlation(reference.energy, take.energy)),
+    rangeRatio: referenceRange && takeRange !== null ? takeRange / referenceRange : null
+  };
+};
+
+// Null when either read has no speech to compare.
+export const analysePitch = (reference: AudioBuffer, take: AudioBuffer): PitchComparison | null => {
+  const referenceContour = extractContour(reference);
+  const takeContour = extractContour(take);
+  return referenceContour && takeContour ? comparePitch(referenceContour, takeContour) : null;
+};
+
+/**
+ * Plain-language notes for the actor. Tonal and pitch-accent languages get
+ * a note about word-level pitch, since there a mismatch changes meaning.
+ */
+export const pitchGuidance = (comparison: PitchComparison, emotion: string, language: string): string[] => {
+  const notes: string[] = [];
+  if (comparison.intonation !== null && comparison.intonation < 50) {
+    notes.push(TONAL_LANGUAGES.includes(language)
+      ? "Syllable tones drift from the reference; check each tone's shape against the reference read."
+      : PITCH_ACCENT_LANGUAGES.includes(language)
+        ? "The pitch accent differs from the reference; listen for where the pitch drops in each word."
+        : "Your melody differs from the reference; listen to where it rises and falls.");
+  }
+  if (comparison.rangeRatio !== null && comparison.rangeRatio < 0.7) {
+    notes.push(`Flatter than the reference; a ${emotion} read usually needs more pitch movement.`);
+  } else if (comparison.rangeRatio !== null && comparison.rangeRatio > 1.4) {
+    notes.push(`More pitch movement than the reference; make sure the ${emotion} colour doesn't tip into overplaying.`);
+  }
+  if (comparison.emphasis < 50) notes.push("Stress lands in different places than in the reference.");
+  if (notes.length === 0) notes.push("Intonation and emphasis track the reference closely.");
+  return notes;
+};
@@ -0,0 +1,174 @@
+
+import { REFERENCE_SAMPLE_RATE } from "../types";
+
+/**
+ * Single playback path for the studio: one lazily created AudioContext, one
+ * active source at a time, and a transport (play/stop/seek/rate) that UI can
+ * subscribe to. Note that playbackRate on a buffer source also shifts pitch.
+ */
+
+export interface PlaybackState {
+  playing: boolean;
+  label: string | null;
+  // Set by callers that other UI follows, e.g. mixdownPlaybackId; null for everything else.
+  id: string | null;
+  position: number;
+  duration: number;
+  rate: number;
+}
+
+type Listener = (state: PlaybackState) => void;
+
+let context: AudioContext | null = null;
+let buffer: AudioBuffer | null = null;
+let source: AudioBufferSourceNode | null = null;
+let label: string | null = null;
+let playbackId: string | null = null;
+let rate = 1;
+// Buffer position at the moment the current source started, and the context time it started at.
+let startOffset = 0;
+let startedAt = 0;
+const listeners = new Set<Listener>();
+// Pending playToEnd caller: told true on a natural end, false if interrupted.
+let settle: ((completed: boolean) => void) | null = null;
+
+const settlePending = (completed: boolean) => {
+  const pending = settle;
+  settle = null;
+  pending?.(completed);
+};
+
+export const getAudioContext = (): AudioContext => {
+  if (!context || context.state === 'closed') {
+    context = new (window.AudioContext || (window as any).webkitAudioContext)();
+  }
+  // Browsers keep contexts suspended until a user gesture; playback calls retry this.
+  if (context.state === 'suspended') context.resume().catch(() => {});
+  return context;
+};
+
+export const pcm16ToAudioBuffer = (pcm: Uint8Array, sampleRate: number = REFERENCE_SAMPLE_RATE): AudioBuffer => {
+  const samples = new Int16Array(pcm.buffer, pcm.byteOffset, Math.floor(pcm.byteLength / 2));
+  const audioBuffer = getAudioContext().createBuffer(1, samples.length, sampleRate);
+  const channelData = audioBuffer.getChannelData(0);
+  for (let i = 0; i < samples.length; i++) {
+    channelData[i] = samples[i] / 32768.0;
+  }
+  return audioBuffer;
+};
+
+// Takes are immutable blobs, so decoded buffers can be cached per Blob instance.
+const decodedBlobs = new WeakMap<Blob, Promise<AudioBuffer>>();
+
+export const decodeBlob = (blob: Blob): Promise<AudioBuffer> => {
+  let decoded = decodedBlobs.get(blob);
+  if (!decoded) {
+    decoded = blob.arrayBuffer().then(data => getAudioContext().decodeAudioData(data));
+    decoded.catch(() => decodedBlobs.delete(blob));
+    decodedBlobs.set(blob, decoded);
+  }
+  return decoded;
+};
+
+export const getPosition = (): number => {
+  if (!buffer) return 0;
+  if (!source || !context) return startOffset;
+  return Math.min(buffer.duration, startOffset + (context.currentTime - startedAt) * rate);
+};
+
+export const getPlaybackState = (): PlaybackState => ({
+  playing: source !== null,
+  label,
+  id: playbackId,
+  position: getPosition(),
+  duration: buffer?.duration ?? 0,
+  rate
+});
+
+const notify = () => {
+  const state = getPlaybackState();
+  listeners.forEach(listener => listener(state));
+};
+
+export const subscribe = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  listener(getPlaybackState());
+  return () => { listeners.delete(listener); };
+};
+
+const stopSource = () => {
+  if (!source) return;
+  source.onended = null;
+  try { source.stop(); } catch { /* already stopped */ }
+  source.disconnect();
+  source = null;
+};
+
+const startSource = (offset: number) => {
+  if (!buffer) return;
+  const ctx = getAudioContext();
+  stopSource();
+  const node = ctx.createBufferSource();
+  node.buffer = buffer;
+  node.playbackRate.value = rate;
+  node.connect(ctx.destination);
+  node.onended = () => {
+    if (source !== node) return;
+    source = null;
+    startOffset = 0;
+    notify();
+    settlePending(true);
+  };
+  startOffset = Math.max(0, Math.min(offset, buffer.duration));
+  startedAt = ctx.currentTime;
+  node.start(0, startOffset);
+  source = node;
+  notify();
+};
+
+// Replaces whatever is playing with the given buffer.
+export const play = (audioBuffer: AudioBuffer, playLabel: string, { offset = 0, id = null }: { offset?: number; id?: string | null } = {}) => {
+  settlePending(false);
+  stopSource();
+  buffer = audioBuffer;
+  label = playLabel;
+  playbackId = id;
+  startSource(offset);
+};
+
+// Plays a buffer and resolves once it finishes, or with false if stopped or replaced first.
+export const playToEnd = (audioBuffer: AudioBuffer, playLabel: string): Promise<boolean> =>
+  new Promise(resolve => {
+    play(audioBuffer, playLabel);
+    settle = resolve;
+  });
+
+export const resume = () => {
+  if (buffer && !source) startSource(startOffset >= buffer.duration ? 0 : startOffset);
+};
+
+export const stop = () => {
+  if (source) startOffset = getPosition();
+  stopSource();
+  notify();
+  settlePending(false);
+};
+
+export const seek = (seconds: number) => {
+  if (!buffer) return;
+  if (source) startSource(seconds);
+  else {
+    startOffset = Math.max(0, Math.min(seconds, buffer.duration));
+    notify();
+  }
+};
+
+export const setPlaybackRate = (nextRate: number) => {
+  if (source) {
+    startOffset = getPosition();
+    startedAt = getAudioContext().currentTime;
+    source.playbackRate.value = nextRate;
+  }
+  rate = nextRate;
+  notify();
+};
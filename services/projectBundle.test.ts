@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { Project } from '../types';
+import { exportProjectBundle, importProjectBundle, BUNDLE_FORMAT, BUNDLE_FORMAT_VERSION } from './projectBundle';
+import { createZip } from './zip';
+
+const encode = (value: unknown) => new TextEncoder().encode(JSON.stringify(value));
+
+const project: Project = {
+  id: 'project-1',
+  name: 'Train',
+  createdAt: 1,
+  updatedAt: 2,
+  scene: {
+    id: 'scene-1',
+    title: 'The Last Train',
+    context: '',
+    language: 'en',
+    dialogue: [{ id: 'a', character: 'MARA', text: 'That case is mine.', emotion: 'defiant' }]
+  },
+  takes: [{ id: 'take-1', lineId: 'a', takeNumber: 1, audioBlob: new Blob(['audio'], { type: 'audio/webm' }), duration: 1.5, timestamp: 3 }],
+  referenceAudio: {}
+};
+
+// A current-format bundle with the given takes.json and extra files.
+const bundleWith = (takes: unknown, files: Record<string, string> = {}) => createZip([
+  { name: 'manifest.json', data: encode({ format: BUNDLE_FORMAT, formatVersion: BUNDLE_FORMAT_VERSION, name: 'Train', referenceAudio: {} }) },
+  { name: 'scene.json', data: encode(project.scene) },
+  { name: 'takes.json', data: encode(takes) },
+  ...Object.entries(files).map(([name, text]) => ({ name, data: new TextEncoder().encode(text) }))
+]);
+
+describe('project bundles', () => {
+  it('imports what it exports under a new id', async () => {
+    const imported = await importProjectBundle(await exportProjectBundle(project));
+    expect(imported.id).not.toBe(project.id);
+    expect(imported.scene.dialogue).toEqual(project.scene.dialogue);
+    expect(imported.takes[0]).toMatchObject({ id: 'take-1', lineId: 'a', duration: 1.5 });
+    expect(await imported.takes[0].audioBlob.text()).toBe('audio');
+    expect(imported.takes[0].audioBlob.type).toBe('audio/webm');
+  });
+
+  it('names the takes.json entry that cannot be imported', async () => {
+    const entry = { id: 'take-1', lineId: 'a', file: 'takes/take-1.webm', mimeType: 'audio/webm' };
+    await expect(importProjectBundle(bundleWith({ takes: [] }))).rejects.toThrow('Bundle takes.json is not a list of takes.');
+    await expect(importProjectBundle(bundleWith([entry]))).rejects.toThrow(
+      'Take 1 in takes.json (take-1) refers to takes/take-1.webm, which is missing from the bundle.'
+    );
+    await expect(importProjectBundle(bundleWith([{ ...entry, mimeType: undefined }], { 'takes/take-1.webm': 'audio' }))).rejects.toThrow(
+      'Take 1 in takes.json (take-1) has no audio type.'
+    );
+    await expect(importProjectBundle(bundleWith([null]))).rejects.toThrow('Take 1 in takes.json is not a take.');
+  });
+});
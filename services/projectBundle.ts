@@ -0,0 +1,207 @@
+
+import { Project, Scene, DubbingPerformance, REFERENCE_SAMPLE_RATE } from "../types";
+import { createZip, readZip, ZipEntry } from "./zip";
+import { pcm16ToWav, wavToPcm16 } from "./wav";
+import { dataUrlToBlob, blobToDataUrl } from "./projectStore";
+import { createId } from "./id";
+import { safeFileName } from "./download";
+import { migrateTakeFeedback } from "./feedback";
+import { baseMimeType, FALLBACK_MIME_TYPE } from "./audioInput";
+
+/**
+ * Portable .dubproj bundles: a ZIP holding manifest.json, scene.json,
+ * takes.json, the concept image, reference audio as WAV and every take in
+ * its recorded container. Bump BUNDLE_FORMAT_VERSION when the layout changes
+ * and add a step to BUNDLE_MIGRATIONS for the previous version.
+ */
+
+export const BUNDLE_EXTENSION = '.dubproj';
+export const BUNDLE_FORMAT = 'dubmaster-project';
+export const BUNDLE_FORMAT_VERSION = 2;
+
+interface BundleTake extends Omit<DubbingPerformance, 'audioBlob'> {
+  file: string;
+  mimeType: string;
+}
+
+interface BundleManifest {
+  format: string;
+  formatVersion: number;
+  exportedAt: number;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  image?: { file: string; mimeType: string };
+  referenceAudio: Record<string, { file: string; sampleRate: number }>;
+}
+
+// A manifest of any format version, before migration.
+type RawManifest = Record<string, unknown>;
+
+// BUNDLE_MIGRATIONS[n] upgrades the parsed bundle files from format n to n + 1.
+const BUNDLE_MIGRATIONS: Record<number, (files: Map<string, Uint8Array>, manifest: RawManifest) => RawManifest> = {
+  // v2: take feedback in takes.json became structured DirectorFeedback.
+  1: (files, manifest) => {
+    files.set('takes.json', toJson(parseTakeEntries(files).map(entry => migrateTakeFeedback(entry as { feedback?: unknown }))));
+    return manifest;
+  }
+};
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'image/svg+xml': 'svg'
+};
+
+const extensionFor = (mimeType: string, fallback: string) => {
+  const base = baseMimeType(mimeType);
+  return FILE_EXTENSIONS[base] || base.split('/')[1] || fallback;
+};
+
+const toJson = (value: unknown) => new TextEncoder().encode(JSON.stringify(value, null, 2));
+
+const requireFile = (files: Map<string, Uint8Array>, name: string) => {
+  const data = files.get(name);
+  if (!data) throw new Error(`Bundle is missing ${name}.`);
+  return data;
+};
+
+const parseJson = <T>(files: Map<string, Uint8Array>, name: string): T => {
+  const data = requireFile(files, name);
+  try {
+    return JSON.parse(new TextDecoder().decode(data));
+  } catch {
+    throw new Error(`Bundle file ${name} is not valid JSON.`);
+  }
+};
+
+const parseTakeEntries = (files: Map<string, Uint8Array>): unknown[] => {
+  const entries = parseJson<unknown>(files, 'takes.json');
+  if (!Array.isArray(entries)) throw new Error("Bundle takes.json is not a list of takes.");
+  return entries;
+};
+
+// Each entry must name its audio file and type, and the file must be in the bundle.
+const readBundleTakes = (files: Map<string, Uint8Array>): DubbingPerformance[] =>
+  parseTakeEntries(files).map((entry, index) => {
+    const name = `Take ${index + 1} in takes.json`;
+    if (typeof entry !== 'object' || entry === null) throw new Error(`${name} is not a take.`);
+    const { file: takeFile, mimeType, ...take } = entry as Partial<BundleTake>;
+    if (typeof take.id !== 'string' || typeof take.lineId !== 'string') throw new Error(`${name} has no take or line id.`);
+    if (typeof takeFile !== 'string' || !takeFile) throw new Error(`${name} (${take.id}) names no audio file.`);
+    if (typeof mimeType !== 'string') throw new Error(`${name} (${take.id}) has no audio type.`);
+    const data = files.get(takeFile);
+    if (!data) throw new Error(`${name} (${take.id}) refers to ${takeFile}, which is missing from the bundle.`);
+    return { ...take, audioBlob: new Blob([data], { type: mimeType }) } as DubbingPerformance;
+  });
+
+export const bundleFileName = (project: Project) => `${safeFileName(project.name)}${BUNDLE_EXTENSION}`;
+
+export const exportProjectBundle = async (project: Project): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  // Remote video URLs expire, so they are not exported.
+  const { imageUrl, videoUrl, syncedVideoUrl, ...scene } = project.scene;
+
+  let image: BundleManifest['image'];
+  if (imageUrl) {
+    const blob = await dataUrlToBlob(imageUrl);
+    image = { file: `image.${extensionFor(blob.type, 'png')}`, mimeType: blob.type || 'image/png' };
+    entries.push({ name: image.file, data: new Uint8Array(await blob.arrayBuffer()) });
+  }
+
+  const referenceAudio: BundleManifest['referenceAudio'] = {};
+  for (const [lineId, pcm] of Object.entries(project.referenceAudio)) {
+    const file = `reference/${lineId}.wav`;
+    referenceAudio[lineId] = { file, sampleRate: REFERENCE_SAMPLE_RATE };
+    entries.push({ name: file, data: pcm16ToWav(pcm, REFERENCE_SAMPLE_RATE) });
+  }
+
+  const takes: BundleTake[] = [];
+  for (const { audioBlob, ...take } of project.takes) {
+    const mimeType = audioBlob.type || FALLBACK_MIME_TYPE;
+    const file = `takes/${take.id}.${extensionFor(mimeType, 'webm')}`;
+    takes.push({ ...take, file, mimeType });
+    entries.push({ name: file, data: new Uint8Array(await audioBlob.arrayBuffer()) });
+  }
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    formatVersion: BUNDLE_FORMAT_VERSION,
+    exportedAt: Date.now(),
+    name: project.name,
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+    image,
+    referenceAudio
+  };
+
+  return createZip([
+    { name: 'manifest.json', data: toJson(manifest) },
+    { name: 'scene.json', data: toJson(scene) },
+    { name: 'takes.json', data: toJson(takes) },
+    ...entries
+  ]);
+};
+
+/**
+ * Rebuilds a Project from a .dubproj archive. The imported project always gets
+ * a fresh id so it never overwrites an existing library entry.
+ */
+export const importProjectBundle = async (file: Blob): Promise<Project> => {
+  let files: Map<string, Uint8Array>;
+  try {
+    files = await readZip(file);
+  } catch (err: unknown) {
+    throw new Error(`Could not read bundle: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  if (!files.has('manifest.json')) throw new Error("This file is not a DubMaster project bundle (manifest.json is missing).");
+  const parsed = parseJson<unknown>(files, 'manifest.json');
+  if (typeof parsed !== 'object' || parsed === null) throw new Error("Bundle manifest.json is not a valid manifest.");
+  let manifest = parsed as RawManifest;
+  if (manifest.format !== BUNDLE_FORMAT) throw new Error("This file is not a DubMaster project bundle (unknown format).");
+
+  let version = manifest.formatVersion;
+  if (typeof version !== 'number' || version < 1) throw new Error("Bundle manifest has no valid format version.");
+  if (version > BUNDLE_FORMAT_VERSION) {
+    throw new Error(`Bundle format ${version} was created by a newer version of DubMaster. This version supports up to format ${BUNDLE_FORMAT_VERSION}.`);
+  }
+  while (version < BUNDLE_FORMAT_VERSION) {
+    const migrate = BUNDLE_MIGRATIONS[version];
+    if (!migrate) throw new Error(`Bundle format ${version} is no longer supported.`);
+    manifest = { ...migrate(files, manifest), formatVersion: version + 1 };
+    version++;
+  }
+
+  const typedManifest = manifest as unknown as BundleManifest;
+  const scene = parseJson<Omit<Scene, 'imageUrl' | 'videoUrl' | 'syncedVideoUrl'>>(files, 'scene.json');
+  if (!scene.title || !Array.isArray(scene.dialogue)) throw new Error("Bundle scene.json is not a valid scene.");
+
+  const takes = readBundleTakes(files);
+
+  const referenceAudio: Record<string, Uint8Array> = {};
+  for (const [lineId, entry] of Object.entries(typedManifest.referenceAudio || {})) {
+    const { pcm, sampleRate } = wavToPcm16(requireFile(files, entry.file));
+    if (sampleRate !== REFERENCE_SAMPLE_RATE) throw new Error(`Reference audio ${entry.file} has unsupported sample rate ${sampleRate}.`);
+    referenceAudio[lineId] = pcm;
+  }
+
+  let imageUrl: string | undefined;
+  if (typedManifest.image) {
+    const imageBlob = new Blob([requireFile(files, typedManifest.image.file)], { type: typedManifest.image.mimeType });
+    imageUrl = await blobToDataUrl(imageBlob);
+  }
+
+  return {
+    id: createId(),
+    name: typedManifest.name || scene.title,
+    createdAt: typedManifest.createdAt || Date.now(),
+    updatedAt: Date.now(),
+    scene: { ...scene, imageUrl },
+    takes,
+    referenceAudio
+  };
+};
@@ -0,0 +1,213 @@
+
+import { Project, ProjectSummary, Scene, DubbingPerformance } from "../types";
+import { createId } from "./id";
+import { migrateTakeFeedback } from "./feedback";
+
+const DB_NAME = 'dubmaster-studio';
+const DB_VERSION = 1;
+const META_STORE = 'projectMeta';
+const DATA_STORE = 'projectData';
+
+/**
+ * Version of the stored record layout. Bump it whenever Project, Scene or
+ * DubbingPerformance change shape and add a step to MIGRATIONS that upgrades
+ * a record from the previous version.
+ */
+export const PROJECT_SCHEMA_VERSION = 2;
+
+interface StoredProject {
+  schemaVersion: number;
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  // imageUrl is stored separately as a Blob rather than as a base64 string.
+  scene: Omit<Scene, 'imageUrl'>;
+  image?: Blob;
+  takes: DubbingPerformance[];
+  referenceAudio: Record<string, Uint8Array>;
+}
+
+// A stored record of any schema version, before migration.
+type RawRecord = Record<string, unknown>;
+
+const migrateTakes = (takes: unknown) =>
+  Array.isArray(takes) ? (takes as { feedback?: unknown }[]).map(migrateTakeFeedback) : takes;
+
+// MIGRATIONS[n] upgrades a record from schema version n to n + 1.
+const MIGRATIONS: Record<number, (record: RawRecord) => RawRecord> = {
+  // v2: take feedback became structured DirectorFeedback instead of free text.
+  1: record => ({ ...record, takes: migrateTakes(record.takes) })
+};
+
+export const migrateStoredProject = (record: unknown): StoredProject => {
+  if (typeof record !== 'object' || record === null) throw new Error("Stored project record is not an object.");
+  let current = record as RawRecord;
+  let version = typeof current.schemaVersion === 'number' ? current.schemaVersion : 0;
+  if (version > PROJECT_SCHEMA_VERSION) {
+    throw new Error(`Project "${String(current.name)}" was saved by a newer version of DubMaster (schema ${version}).`);
+  }
+  while (version < PROJECT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration from project schema ${version}.`);
+    current = { ...migrate(current), schemaVersion: version + 1 };
+    version++;
+  }
+  return current as unknown as StoredProject;
+};
+
+const openDb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(DATA_STORE)) db.createObjectStore(DATA_STORE, { keyPath: 'id' });
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+const toSummary = (project: StoredProject | Project): ProjectSummary => ({
+  id: project.id,
+  name: project.name,
+  title: project.scene.title,
+  language: project.scene.language,
+  lineCount: project.scene.dialogue.length,
+  takeCount: project.takes.length,
+  createdAt: project.createdAt,
+  updatedAt: project.updatedAt
+});
+
+// Video links from before keys were added at playback time had the API key in their query.
+const withoutApiKey = (videoUrl: string | undefined): string | undefined => {
+  if (!videoUrl) return videoUrl;
+  try {
+    const url = new URL(videoUrl);
+    url.searchParams.delete('key');
+    return url.toString();
+  } catch {
+    return videoUrl;
+  }
+};
+
+const toStored = async (project: Project): Promise<StoredProject> => {
+  const { imageUrl, ...rest } = project.scene;
+  const scene = { ...rest, videoUrl: withoutApiKey(rest.videoUrl), syncedVideoUrl: withoutApiKey(rest.syncedVideoUrl) };
+  return {
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    id: project.id,
+    name: project.name,
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+    scene,
+    image: imageUrl ? await dataUrlToBlob(imageUrl) : undefined,
+    takes: project.takes,
+    referenceAudio: project.referenceAudio
+  };
+};
+
+const fromStored = async (record: StoredProject): Promise<Project> => ({
+  id: record.id,
+  name: record.name,
+  createdAt: record.createdAt,
+  updatedAt: record.updatedAt,
+  scene: { ...record.scene, imageUrl: record.image ? await blobToDataUrl(record.image) : undefined },
+  takes: record.takes,
+  referenceAudio: record.referenceAudio
+});
+
+const putStored = async (record: StoredProject): Promise<void> => {
+  const db = await openDb();
+  try {
+    const tx = db.transaction([META_STORE, DATA_STORE], 'readwrite');
+    tx.objectStore(DATA_STORE).put(record);
+    tx.objectStore(META_STORE).put(toSummary(record));
+    await transactionDone(tx);
+  } finally {
+    db.close();
+  }
+};
+
+const getStored = async (id: string): Promise<StoredProject | null> => {
+  const db = await openDb();
+  try {
+    const record = await promisify(db.transaction(DATA_STORE).objectStore(DATA_STORE).get(id));
+    return record ? migrateStoredProject(record) : null;
+  } finally {
+    db.close();
+  }
+};
+
+export const saveProject = async (project: Project): Promise<void> => {
+  // Convert the image before opening the transaction; IndexedDB transactions
+  // auto-commit as soon as they are left idle across an await.
+  await putStored(await toStored(project));
+};
+
+export const loadProject = async (id: string): Promise<Project | null> => {
+  const record = await getStored(id);
+  return record ? fromStored(record) : null;
+};
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDb();
+  try {
+    const summaries = await promisify<ProjectSummary[]>(db.transaction(META_STORE).objectStore(META_STORE).getAll());
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+  } finally {
+    db.close();
+  }
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const record = await getStored(id);
+  if (!record) throw new Error(`Project ${id} not found.`);
+  await putStored({ ...record, name, updatedAt: Date.now() });
+};
+
+export const duplicateProject = async (id: string): Promise<ProjectSummary> => {
+  const record = await getStored(id);
+  if (!record) throw new Error(`Project ${id} not found.`);
+  const now = Date.now();
+  const copy: StoredProject = {
+    ...record,
+    id: createId(),
+    name: `${record.name} (copy)`,
+    createdAt: now,
+    updatedAt: now
+  };
+  await putStored(copy);
+  return toSummary(copy);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDb();
+  try {
+    const tx = db.transaction([META_STORE, DATA_STORE], 'readwrite');
+    tx.objectStore(META_STORE).delete(id);
+    tx.objectStore(DATA_STORE).delete(id);
+    await transactionDone(tx);
+  } finally {
+    db.close();
+  }
+};
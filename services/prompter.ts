@@ -0,0 +1,56 @@
+import { Scene, DialogueLine, TimingSource } from "../types";
+import { estimateDuration, referenceDuration } from "./timing";
+import { getReferenceClip } from "./referenceCache";
+import { getVoiceFor } from "./casting";
+import { getAudioContext } from "./playbackEngine";
+
+export const COUNTDOWN_OPTIONS = [0, 1, 2, 3, 5];
+
+// Grace period after the line window before an automatic stop.
+export const AUTO_STOP_TAIL_SECONDS = 0.75;
+
+export interface LineWindow {
+  duration: number;
+  source: TimingSource;
+}
+
+/**
+ * How long the prompter gives a line: the imported cue window if there is
+ * one, otherwise the reference read (fetching it if needed), otherwise a
+ * reading-speed estimate.
+ */
+export const resolveLineWindow = async (
+  scene: Scene,
+  line: DialogueLine,
+  referenceAudio: Record<string, Uint8Array>
+): Promise<LineWindow> => {
+  const cue = scene.cues?.[line.id];
+  if (cue) return { duration: cue.end - cue.start, source: 'cue' };
+
+  const saved = referenceAudio[line.id];
+  if (saved) return { duration: referenceDuration(saved), source: 'reference' };
+
+  try {
+    const clip = await getReferenceClip(line.text, getVoiceFor(scene, line.character), scene.language);
+    if (clip) return { duration: clip.buffer.duration, source: 'reference' };
+  } catch (err) {
+    console.error("Reference read unavailable for prompter pacing", err);
+  }
+  return { duration: estimateDuration(line.text), source: 'estimate' };
+};
+
+export const playBeep = (frequency: number = 880, seconds: number = 0.12) => {
+  const ctx = getAudioContext();
+  const oscillator = ctx.createOscillator();
+  const gain = ctx.createGain();
+  oscillator.frequency.value = frequency;
+  gain.gain.setValueAtTime(0.2, ctx.currentTime);
+  gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + seconds);
+  oscillator.connect(gain).connect(ctx.destination);
+  oscillator.start();
+  oscillator.stop(ctx.currentTime + seconds);
+};
+
+// Splits a line into karaoke units: words, or characters for unspaced scripts.
+export const prompterUnits = (text: string, language: string): string[] =>
+  ['ja', 'zh'].includes(language) ? Array.from(text) : text.split(/(\s+)/).filter(Boolean);
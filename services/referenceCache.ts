@@ -0,0 +1,34 @@
+
+import { generateReferenceAudio } from "./aiService";
+import { pcm16ToAudioBuffer } from "./playbackEngine";
+
+/**
+ * Decoded reference reads keyed by text, voice and language. Concurrent
+ * requests for the same key share one TTS call, and failures are not cached.
+ */
+
+export interface ReferenceClip {
+  pcm: Uint8Array;
+  buffer: AudioBuffer;
+}
+
+const cache = new Map<string, Promise<ReferenceClip | null>>();
+
+export const referenceKey = (text: string, voice: string, language: string) => `${language}|${voice}|${text}`;
+
+// Seeds the cache with PCM restored from a saved project, without calling TTS.
+export const primeReference = (text: string, voice: string, language: string, pcm: Uint8Array) => {
+  const key = referenceKey(text, voice, language);
+  if (!cache.has(key)) cache.set(key, Promise.resolve({ pcm, buffer: pcm16ToAudioBuffer(pcm) }));
+};
+
+export const getReferenceClip = (text: string, voice: string, language: string): Promise<ReferenceClip | null> => {
+  const key = referenceKey(text, voice, language);
+  let clip = cache.get(key);
+  if (!clip) {
+    clip = generateReferenceAudio(text, voice).then(pcm => pcm ? { pcm, buffer: pcm16ToAudioBuffer(pcm) } : null);
+    clip.then(result => { if (!result) cache.delete(key); }, () => cache.delete(key));
+    cache.set(key, clip);
+  }
+  return clip;
+};
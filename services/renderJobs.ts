@@ -0,0 +1,175 @@
+
+import { getVideoOperation } from "./aiService";
+import { createId } from "./id";
+import { ServiceErrorKind, toServiceError } from "./errors";
+
+/**
+ * Background queue for long-running video renders. Each job polls its
+ * provider operation, can be cancelled, and is abandoned after a timeout.
+ * Running jobs are mirrored to localStorage by operation name, so a reload
+ * picks polling back up instead of losing a paid render.
+ */
+
+export type RenderJobKind = 'sceneVideo' | 'lipSync';
+
+export type RenderJobStatus = 'starting' | 'running' | 'succeeded' | 'failed' | 'cancelled' | 'timedOut';
+
+export interface RenderJob {
+  id: string;
+  kind: RenderJobKind;
+  projectId: string;
+  sceneId: string;
+  label: string;
+  status: RenderJobStatus;
+  operationName?: string;
+  startedAt: number;
+  finishedAt?: number;
+  videoUrl?: string;
+  error?: string;
+  errorKind?: ServiceErrorKind;
+}
+
+export interface RenderJobRequest {
+  kind: RenderJobKind;
+  projectId: string;
+  sceneId: string;
+  label: string;
+  // Kicks off the provider operation and returns its name.
+  start: () => Promise<string>;
+}
+
+export const POLL_INTERVAL_MS = 5000;
+
+export const JOB_TIMEOUT_MS: Record<RenderJobKind, number> = {
+  sceneVideo: 10 * 60 * 1000,
+  lipSync: 15 * 60 * 1000
+};
+
+const STORAGE_KEY = 'dubmaster-render-jobs';
+
+type Listener = (jobs: RenderJob[]) => void;
+type FinishListener = (job: RenderJob) => void;
+
+let jobs: RenderJob[] = [];
+const timers = new Map<string, number>();
+const listeners = new Set<Listener>();
+const finishListeners = new Set<FinishListener>();
+
+export const isJobActive = (job: RenderJob) => job.status === 'starting' || job.status === 'running';
+
+const findJob = (id: string) => jobs.find(job => job.id === id);
+
+const persist = () => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(jobs.filter(job => job.status === 'running')));
+  } catch (err) {
+    console.error("Could not persist render jobs", err);
+  }
+};
+
+const notify = () => {
+  persist();
+  listeners.forEach(listener => listener(jobs));
+};
+
+const patchJob = (id: string, changes: Partial<RenderJob>) => {
+  jobs = jobs.map(job => job.id === id ? { ...job, ...changes } : job);
+  notify();
+};
+
+const finishJob = (id: string, changes: Partial<RenderJob>) => {
+  window.clearTimeout(timers.get(id));
+  timers.delete(id);
+  patchJob(id, { ...changes, finishedAt: Date.now() });
+  const job = findJob(id);
+  if (job) finishListeners.forEach(listener => listener(job));
+};
+
+const schedulePoll = (id: string, delay: number = POLL_INTERVAL_MS) => {
+  timers.set(id, window.setTimeout(() => pollJob(id), delay));
+};
+
+const pollJob = async (id: string) => {
+  timers.delete(id);
+  const job = findJob(id);
+  if (!job || job.status !== 'running' || !job.operationName) return;
+  if (Date.now() - job.startedAt > JOB_TIMEOUT_MS[job.kind]) {
+    finishJob(id, { status: 'timedOut', error: "The render took too long and was abandoned." });
+    return;
+  }
+
+  try {
+    const result = await getVideoOperation(job.operationName);
+    // Cancelled while the request was in flight.
+    if (findJob(id)?.status !== 'running') return;
+    if (!result.done) schedulePoll(id);
+    else if (result.videoUrl) finishJob(id, { status: 'succeeded', videoUrl: result.videoUrl });
+    else finishJob(id, { status: 'failed', error: result.error || "The render finished without a video.", errorKind: result.errorKind });
+  } catch (err) {
+    console.error("Render poll failed", err);
+    if (findJob(id)?.status !== 'running') return;
+    // Transient poll failures keep trying until the timeout; anything else ends the job.
+    const error = toServiceError(err);
+    if (error.retryable) schedulePoll(id);
+    else finishJob(id, { status: 'failed', error: error.message, errorKind: error.kind });
+  }
+};
+
+export const getJobs = (): RenderJob[] => jobs;
+
+export const subscribe = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  listener(jobs);
+  return () => { listeners.delete(listener); };
+};
+
+// Called once per job when it leaves the active states, whatever the outcome.
+export const onJobFinished = (listener: FinishListener): (() => void) => {
+  finishListeners.add(listener);
+  return () => { finishListeners.delete(listener); };
+};
+
+export const enqueueJob = ({ start, ...request }: RenderJobRequest): string => {
+  const id = createId();
+  jobs = [{ ...request, id, status: 'starting', startedAt: Date.now() }, ...jobs];
+  notify();
+
+  start().then(operationName => {
+    if (findJob(id)?.status !== 'starting') return;
+    patchJob(id, { status: 'running', operationName });
+    schedulePoll(id);
+  }, (err) => {
+    console.error("Render could not be started", err);
+    const error = toServiceError(err);
+    if (findJob(id)?.status === 'starting') finishJob(id, { status: 'failed', error: error.message, errorKind: error.kind });
+  });
+  return id;
+};
+
+// Stops tracking the job. The provider may still finish the render, but its result is dropped.
+export const cancelJob = (id: string) => {
+  const job = findJob(id);
+  if (job && isJobActive(job)) finishJob(id, { status: 'cancelled' });
+};
+
+export const dismissJob = (id: string) => {
+  const job = findJob(id);
+  if (!job || isJobActive(job)) return;
+  jobs = jobs.filter(other => other.id !== id);
+  notify();
+};
+
+// Restores jobs that were still running when the page was last closed.
+export const resumeJobs = () => {
+  let saved: RenderJob[] = [];
+  try {
+    saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch (err) {
+    console.error("Discarding unreadable render jobs", err);
+  }
+  const resumed = saved.filter(job => job.operationName && !findJob(job.id));
+  if (resumed.length === 0) return;
+  jobs = [...resumed, ...jobs];
+  notify();
+  resumed.forEach(job => schedulePoll(job.id, 0));
+};
@@ -0,0 +1,34 @@
+
+import { ServiceError, toServiceError } from "./errors";
+
+export interface RetryOptions {
+  attempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Called before each wait, e.g. to show that a call is being retried.
+  onRetry?: (error: ServiceError, attempt: number) => void;
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs a call, retrying transient failures with exponential backoff and
+ * jitter. Anything that isn't retryable, or the last failure, is rethrown as
+ * a ServiceError.
+ */
+export const withRetry = async <T>(
+  call: () => Promise<T>,
+  { attempts = 3, baseDelayMs = 1000, maxDelayMs = 8000, onRetry }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await call();
+    } catch (err) {
+      const error = toServiceError(err);
+      if (!error.retryable || attempt >= attempts) throw error;
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      onRetry?.(error, attempt);
+      await wait(backoff / 2 + Math.random() * backoff / 2);
+    }
+  }
+};
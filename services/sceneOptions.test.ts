@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { Scene } from '../types';
+import { SceneOptions, DEFAULT_SCENE_OPTIONS, validateSceneOptions, checkGeneratedScene, checkLineLengths, matchCharacterNames } from './sceneOptions';
+
+const options = (patch: Partial<SceneOptions>): SceneOptions => ({ ...DEFAULT_SCENE_OPTIONS, ...patch });
+
+const sceneWith = (lines: [string, string][]): Scene => ({
+  id: 'scene-1',
+  title: 'Test',
+  context: '',
+  language: 'en',
+  dialogue: lines.map(([character, text], i) => ({ id: `line-${i}`, character, text, emotion: 'neutral' }))
+});
+
+// Each about 11 syllables, inside the medium range.
+const LINE = 'That case is mine and I have the ticket here.';
+
+describe('validateSceneOptions', () => {
+  it('accepts the defaults', () => {
+    expect(validateSceneOptions(DEFAULT_SCENE_OPTIONS)).toEqual([]);
+  });
+
+  it('rejects counts out of range and casts bigger than the scene', () => {
+    expect(validateSceneOptions(options({ lineCount: 40 }))).toContain('Choose between 2 and 12 lines.');
+    expect(validateSceneOptions(options({ characterCount: 1.5 }))).toContain('Choose between 1 and 6 characters.');
+    expect(validateSceneOptions(options({ lineCount: 2, characterCount: 3 }))).toContain(
+      'Every character needs at least one line; add lines or remove characters.'
+    );
+  });
+
+  it('ignores blank character rows but rejects duplicate names in any case', () => {
+    expect(validateSceneOptions(options({ characters: [{ name: ' ', description: 'unused row' }] }))).toEqual([]);
+    expect(validateSceneOptions(options({
+      characters: [{ name: 'Mara', description: '' }, { name: ' MARA ', description: '' }]
+    }))).toEqual(['Each named character needs a different name.']);
+  });
+
+  it('rejects unknown presets', () => {
+    expect(validateSceneOptions(options({ genre: 'opera' }))).toEqual(['Pick a genre.']);
+  });
+});
+
+describe('checkGeneratedScene', () => {
+  it('passes a scene that matches the request', () => {
+    expect(checkGeneratedScene(sceneWith([['MARA', LINE], ['JONAS', LINE], ['MARA', LINE], ['JONAS', LINE]]), DEFAULT_SCENE_OPTIONS)).toEqual([]);
+  });
+
+  it('reports the wrong number of lines and speakers', () => {
+    expect(checkGeneratedScene(sceneWith([['MARA', LINE], ['MARA', LINE], ['MARA', LINE]]), DEFAULT_SCENE_OPTIONS)).toEqual([
+      'The scene has 3 lines instead of exactly 4.',
+      '1 characters speak instead of exactly 2.'
+    ]);
+  });
+
+  it('reports named characters who never speak and extra speakers once each', () => {
+    const named = options({ characters: [{ name: 'Mara', description: '' }, { name: 'Jonas', description: '' }] });
+    expect(checkGeneratedScene(sceneWith([['MARA', LINE], ['Pip', LINE], ['PIP ', LINE], ['MARA', LINE]]), named)).toEqual([
+      'These characters never speak: Jonas.',
+      'Only the named characters may speak, but the scene also has: Pip.'
+    ]);
+  });
+
+  it('leaves line length to checkLineLengths', () => {
+    expect(checkGeneratedScene(sceneWith([['A', 'No.'], ['B', 'Yes.'], ['A', 'No.'], ['B', 'Yes.']]), DEFAULT_SCENE_OPTIONS)).toEqual([]);
+  });
+});
+
+describe('checkLineLengths', () => {
+  it('asks for longer or shorter lines when the average misses the range', () => {
+    expect(checkLineLengths(sceneWith([['A', 'No.'], ['B', 'Yes.'], ['A', 'No.'], ['B', 'Yes.']]), DEFAULT_SCENE_OPTIONS)).toEqual([
+      'Lines average 1 syllables; make them longer (8-20).'
+    ]);
+    expect(checkLineLengths(sceneWith([['A', 'Get the case now.'], ['B', 'Not a chance.']]), options({ lineCount: 2, lineLength: 'short' }))).toEqual([]);
+  });
+});
+
+describe('matchCharacterNames', () => {
+  it('respells named characters as the user wrote them', () => {
+    const scene = matchCharacterNames(sceneWith([['MARA', LINE], ['JONAS', LINE]]), options({ characters: [{ name: 'Mara', description: '' }] }));
+    expect(scene.dialogue.map(line => line.character)).toEqual(['Mara', 'JONAS']);
+  });
+});
@@ -0,0 +1,166 @@
+
+import { Scene } from "../types";
+import { estimateSyllables } from "./translation";
+
+/**
+ * What a generated scene should look like: length, cast, genre, difficulty
+ * and line length. Options are validated before the request goes out, and
+ * the returned scene is checked against them, since the model doesn't
+ * always honour counts or stick to the named cast.
+ */
+
+export type SceneDifficulty = 'beginner' | 'intermediate' | 'advanced';
+export type LineLength = 'short' | 'medium' | 'long';
+
+export interface SceneCharacter {
+  name: string;
+  // A few words for the model, e.g. "nervous intern, first day".
+  description: string;
+}
+
+export interface SceneOptions {
+  lineCount: number;
+  // The whole cast, named characters included.
+  characterCount: number;
+  characters: SceneCharacter[];
+  genre: string;
+  difficulty: SceneDifficulty;
+  lineLength: LineLength;
+}
+
+export const MIN_LINES = 2;
+export const MAX_LINES = 12;
+export const MIN_CHARACTERS = 1;
+export const MAX_CHARACTERS = 6;
+const MAX_NAME_LENGTH = 30;
+const MAX_DESCRIPTION_LENGTH = 120;
+
+export const GENRE_PRESETS: { id: string; label: string; direction: string }[] = [
+  { id: 'drama', label: 'Drama', direction: 'grounded, emotionally charged drama' },
+  { id: 'comedy', label: 'Comedy', direction: 'light comedy with clear jokes and comic timing' },
+  { id: 'thriller', label: 'Thriller', direction: 'tense thriller with rising stakes' },
+  { id: 'romance', label: 'Romance', direction: 'warm romance with subtext' },
+  { id: 'scifi', label: 'Sci-fi', direction: 'science fiction with a touch of technical jargon' },
+  { id: 'horror', label: 'Horror', direction: 'creeping horror, quiet dread over gore' },
+  { id: 'noir', label: 'Noir', direction: 'hard-boiled noir with clipped, world-weary lines' },
+  { id: 'everyday', label: 'Everyday', direction: 'an everyday conversation, natural and unscripted-sounding' }
+];
+
+export const DIFFICULTY_LEVELS: Record<SceneDifficulty, { label: string; vocabulary: string; pace: string }> = {
+  beginner: {
+    label: 'Beginner',
+    vocabulary: 'common everyday words and simple sentence structures, no idioms or slang',
+    pace: 'slow and deliberate, with room to breathe between phrases'
+  },
+  intermediate: {
+    label: 'Intermediate',
+    vocabulary: 'natural conversational vocabulary with the occasional idiom',
+    pace: 'a normal conversational pace'
+  },
+  advanced: {
+    label: 'Advanced',
+    vocabulary: 'rich vocabulary, idioms, slang and wordplay where the genre suits it',
+    pace: 'fast, overlapping exchanges and rapid-fire delivery'
+  }
+};
+
+// Syllables per line; a scene's average has to land in the range.
+export const LINE_LENGTHS: Record<LineLength, { label: string; minSyllables: number; maxSyllables: number }> = {
+  short: { label: 'Short', minSyllables: 3, maxSyllables: 12 },
+  medium: { label: 'Medium', minSyllables: 8, maxSyllables: 20 },
+  long: { label: 'Long', minSyllables: 16, maxSyllables: 35 }
+};
+
+export const DEFAULT_SCENE_OPTIONS: SceneOptions = {
+  lineCount: 4,
+  characterCount: 2,
+  characters: [],
+  genre: 'drama',
+  difficulty: 'intermediate',
+  lineLength: 'medium'
+};
+
+export const genreDirection = (genre: string) =>
+  GENRE_PRESETS.find(preset => preset.id === genre)?.direction ?? genre;
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Drops blank character rows and trims the rest; leaves everything else as entered.
+export const normalizeSceneOptions = (options: SceneOptions): SceneOptions => ({
+  ...options,
+  characters: options.characters
+    .map(character => ({ name: character.name.trim(), description: character.description.trim() }))
+    .filter(character => character.name !== '')
+});
+
+// Problems with the options as the user set them, in plain language; empty when valid.
+export const validateSceneOptions = (options: SceneOptions): string[] => {
+  const problems: string[] = [];
+  const { lineCount, characterCount, characters } = normalizeSceneOptions(options);
+  if (!Number.isInteger(lineCount) || lineCount < MIN_LINES || lineCount > MAX_LINES) {
+    problems.push(`Choose between ${MIN_LINES} and ${MAX_LINES} lines.`);
+  }
+  if (!Number.isInteger(characterCount) || characterCount < MIN_CHARACTERS || characterCount > MAX_CHARACTERS) {
+    problems.push(`Choose between ${MIN_CHARACTERS} and ${MAX_CHARACTERS} characters.`);
+  }
+  if (characterCount > lineCount) problems.push("Every character needs at least one line; add lines or remove characters.");
+  if (characters.length > characterCount) problems.push(`${characters.length} named characters don't fit a cast of ${characterCount}.`);
+  if (characters.some((character, i) => characters.findIndex(other => sameName(other.name, character.name)) !== i)) {
+    problems.push("Each named character needs a different name.");
+  }
+  if (characters.some(character => character.name.length > MAX_NAME_LENGTH)) problems.push(`Keep character names under ${MAX_NAME_LENGTH} characters.`);
+  if (characters.some(character => character.description.length > MAX_DESCRIPTION_LENGTH)) {
+    problems.push(`Keep character descriptions under ${MAX_DESCRIPTION_LENGTH} characters.`);
+  }
+  if (!GENRE_PRESETS.some(preset => preset.id === options.genre)) problems.push("Pick a genre.");
+  if (!DIFFICULTY_LEVELS[options.difficulty]) problems.push("Pick a difficulty.");
+  if (!LINE_LENGTHS[options.lineLength]) problems.push("Pick a line length.");
+  return problems;
+};
+
+// Respells named characters the way the user wrote them, e.g. "Mara" -> "MARA".
+export const matchCharacterNames = (scene: Scene, options: SceneOptions): Scene => ({
+  ...scene,
+  dialogue: scene.dialogue.map(line => {
+    const named = options.characters.find(character => sameName(character.name, line.character ?? ''));
+    return named ? { ...line, character: named.name } : line;
+  })
+});
+
+/**
+ * Ways a generated scene misses the request, phrased so they can be fed back
+ * to the model on a retry; empty when the scene matches. Line length is
+ * checked separately by checkLineLengths.
+ */
+export const checkGeneratedScene = (scene: Scene, options: SceneOptions): string[] => {
+  const problems: string[] = [];
+  const { lineCount, characterCount, characters } = normalizeSceneOptions(options);
+  if (scene.dialogue.length !== lineCount) problems.push(`The scene has ${scene.dialogue.length} lines instead of exactly ${lineCount}.`);
+  if (scene.dialogue.some(line => !line.text?.trim() || !line.character?.trim())) problems.push("Some lines have no text or no character.");
+
+  const cast = Array.from(new Set(scene.dialogue.map(line => (line.character ?? '').trim().toLowerCase())));
+  if (cast.length !== characterCount) problems.push(`${cast.length} characters speak instead of exactly ${characterCount}.`);
+  const missing = characters.filter(character => !cast.includes(character.name.toLowerCase()));
+  if (missing.length > 0) problems.push(`These characters never speak: ${missing.map(c => c.name).join(', ')}.`);
+  if (characters.length === characterCount) {
+    const extra = scene.dialogue
+      .map(line => (line.character ?? '').trim())
+      .filter((name, i, names) => !characters.some(character => sameName(character.name, name)) && names.findIndex(other => sameName(other, name)) === i);
+    if (extra.length > 0) problems.push(`Only the named characters may speak, but the scene also has: ${extra.join(', ')}.`);
+  }
+  return problems;
+};
+
+/**
+ * Whether the lines are about as long as requested. Syllables are estimated
+ * (see estimateSyllables), so these are advice for a retry and the user, not
+ * reasons to reject a scene; empty when the average is in range.
+ */
+export const checkLineLengths = (scene: Scene, options: SceneOptions): string[] => {
+  if (scene.dialogue.length === 0) return [];
+  const { minSyllables, maxSyllables } = LINE_LENGTHS[normalizeSceneOptions(options).lineLength];
+  const average = scene.dialogue.reduce((sum, line) => sum + estimateSyllables(line.text ?? '', scene.language), 0) / scene.dialogue.length;
+  if (average < minSyllables) return [`Lines average ${Math.round(average)} syllables; make them longer (${minSyllables}-${maxSyllables}).`];
+  if (average > maxSyllables) return [`Lines average ${Math.round(average)} syllables; make them shorter (${minSyllables}-${maxSyllables}).`];
+  return [];
+};
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { diffScript, tokenize } from './scriptDiff';
+
+describe('tokenize', () => {
+  it('ignores case and punctuation in word languages', () => {
+    expect(tokenize('Hello, WORLD!', 'en').map(token => token.norm)).toEqual(['hello', 'world']);
+  });
+
+  it('splits CJK text into characters but keeps embedded Latin words whole', () => {
+    expect(tokenize('東京でABCを', 'ja').map(token => token.display)).toEqual(['東', '京', 'で', 'ABC', 'を']);
+  });
+});
+
+describe('diffScript', () => {
+  it('scores an exact reading as error-free', () => {
+    const diff = diffScript('That case is mine.', 'that case is mine', 'en');
+    expect(diff.errorRate).toBe(0);
+    expect(diff.counts).toEqual({ match: 4, substitute: 0, missed: 0, added: 0 });
+  });
+
+  it('reports substituted, missed and added words in script order', () => {
+    expect(diffScript('That case is mine', 'This case is mine', 'en').ops[0]).toEqual({ type: 'substitute', expected: 'That', actual: 'This' });
+    expect(diffScript('That case is mine', 'That case mine', 'en').ops[2]).toEqual({ type: 'missed', expected: 'is' });
+    expect(diffScript('That case is mine', 'That case is mine today', 'en').ops[4]).toEqual({ type: 'added', actual: 'today' });
+
+    const diff = diffScript('That old case is mine', 'This case is mine today', 'en');
+    expect(diff.counts).toEqual({ match: 3, substitute: 1, missed: 1, added: 1 });
+    expect(diff.errorRate).toBe(3 / 5);
+  });
+
+  it('measures a character error rate for Japanese', () => {
+    const diff = diffScript('こんにちは', 'こんばんは', 'ja');
+    expect(diff.unit).toBe('character');
+    expect(diff.errorRate).toBe(2 / 5);
+  });
+
+  it('handles empty scripts', () => {
+    expect(diffScript('', '', 'en').errorRate).toBe(0);
+    expect(diffScript('', 'extra', 'en').errorRate).toBe(1);
+  });
+});
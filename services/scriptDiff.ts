@@ -0,0 +1,122 @@
+
+/**
+ * Deterministic comparison between the scripted line and a take's
+ * transcription. Latin and Devanagari scripts are compared word by word;
+ * Japanese, Chinese and Korean, which don't reliably separate words with
+ * spaces, are compared character by character (a character error rate).
+ */
+
+export type DiffOpType = 'match' | 'substitute' | 'missed' | 'added';
+
+export interface DiffOp {
+  type: DiffOpType;
+  // Script token (absent for added words).
+  expected?: string;
+  // Transcribed token (absent for missed words).
+  actual?: string;
+}
+
+export interface ScriptDiff {
+  unit: 'word' | 'character';
+  ops: DiffOp[];
+  // (substitutions + deletions + insertions) / script length; can exceed 1.
+  errorRate: number;
+  counts: Record<DiffOpType, number>;
+}
+
+interface Token {
+  display: string;
+  norm: string;
+}
+
+const CHARACTER_LANGUAGES = ['ja', 'zh', 'ko'];
+const CJK_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}ー]/u;
+const PUNCTUATION = /[\p{P}\p{S}]/gu;
+
+const normalize = (text: string, language: string) =>
+  text.normalize('NFKC').toLocaleLowerCase(language).replace(PUNCTUATION, '');
+
+export const tokenize = (text: string, language: string): Token[] => {
+  const characterMode = CHARACTER_LANGUAGES.includes(language);
+  const tokens: Token[] = [];
+  for (const word of text.normalize('NFKC').split(/\s+/)) {
+    if (!word) continue;
+    if (!characterMode) {
+      const norm = normalize(word, language);
+      if (norm) tokens.push({ display: word, norm });
+      continue;
+    }
+    // Split CJK runs into single characters but keep embedded Latin words and numbers whole.
+    let run = '';
+    const flush = () => {
+      const norm = normalize(run, language);
+      if (norm) tokens.push({ display: run, norm });
+      run = '';
+    };
+    for (const char of word) {
+      if (CJK_CHAR.test(char)) {
+        flush();
+        run = char;
+        flush();
+      } else {
+        run += char;
+      }
+    }
+    flush();
+  }
+  return tokens;
+};
+
+export const diffScript = (script: string, transcript: string, language: string): ScriptDiff => {
+  const expected = tokenize(script, language);
+  const actual = tokenize(transcript, language);
+  const n = expected.length;
+  const m = actual.length;
+
+  // Levenshtein distance over tokens, then backtrace into edit operations.
+  const cost: number[][] = Array.from({ length: n + 1 }, (_, i) => {
+    const row = new Array<number>(m + 1).fill(0);
+    row[0] = i;
+    return row;
+  });
+  for (let j = 0; j <= m; j++) cost[0][j] = j;
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      const same = expected[i - 1].norm === actual[j - 1].norm;
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + (same ? 0 : 1),
+        cost[i - 1][j] + 1,
+        cost[i][j - 1] + 1
+      );
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && cost[i][j] === cost[i - 1][j - 1] + (expected[i - 1].norm === actual[j - 1].norm ? 0 : 1)) {
+      const same = expected[i - 1].norm === actual[j - 1].norm;
+      ops.push({ type: same ? 'match' : 'substitute', expected: expected[i - 1].display, actual: actual[j - 1].display });
+      i--; j--;
+    } else if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      ops.push({ type: 'missed', expected: expected[i - 1].display });
+      i--;
+    } else {
+      ops.push({ type: 'added', actual: actual[j - 1].display });
+      j--;
+    }
+  }
+  ops.reverse();
+
+  const counts: Record<DiffOpType, number> = { match: 0, substitute: 0, missed: 0, added: 0 };
+  ops.forEach(op => counts[op.type]++);
+  const errors = counts.substitute + counts.missed + counts.added;
+
+  return {
+    unit: CHARACTER_LANGUAGES.includes(language) ? 'character' : 'word',
+    ops,
+    errorRate: n === 0 ? (m === 0 ? 0 : 1) : errors / n,
+    counts
+  };
+};
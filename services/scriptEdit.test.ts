@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { Scene, DialogueLine, DubbingPerformance } from '../types';
+import {
+  EMPTY_HISTORY,
+  MAX_HISTORY,
+  NEW_LINE_TEXT,
+  recordEdit,
+  undoEdit,
+  redoEdit,
+  updateLine,
+  insertLineAfter,
+  removeLine,
+  moveLine,
+  changedLineIds,
+  isTakeStale,
+  stampTakeScripts
+} from './scriptEdit';
+
+const line = (id: string, character: string, text: string): DialogueLine => ({ id, character, text, emotion: 'neutral' });
+
+const scene: Scene = {
+  id: 'scene-1',
+  title: 'Test',
+  context: '',
+  language: 'en',
+  dialogue: [line('a', 'MARA', 'One.'), line('b', 'JONAS', 'Two.'), line('c', 'MARA', 'Three.')]
+};
+
+const take = (lineId: string, script?: DubbingPerformance['script']): DubbingPerformance => ({
+  id: `take-${lineId}`,
+  lineId,
+  takeNumber: 1,
+  audioBlob: new Blob(),
+  duration: 1,
+  timestamp: 0,
+  script
+});
+
+describe('undo history', () => {
+  it('undoes and redoes edits in order', () => {
+    const edited = updateLine(scene, 'b', { text: 'Deux.' });
+    const trimmed = removeLine(edited, 'c');
+    let history = recordEdit(EMPTY_HISTORY, scene.dialogue);
+    history = recordEdit(history, edited.dialogue);
+
+    const undone = undoEdit(history, trimmed.dialogue)!;
+    expect(undone.dialogue).toBe(edited.dialogue);
+    const undoneTwice = undoEdit(undone.history, undone.dialogue)!;
+    expect(undoneTwice.dialogue).toBe(scene.dialogue);
+    expect(undoEdit(undoneTwice.history, undoneTwice.dialogue)).toBeNull();
+
+    const redone = redoEdit(undoneTwice.history, undoneTwice.dialogue)!;
+    expect(redone.dialogue).toBe(edited.dialogue);
+    expect(redoEdit(redone.history, redone.dialogue)!.dialogue).toBe(trimmed.dialogue);
+  });
+
+  it('drops the redo stack when a new edit is recorded', () => {
+    const history = recordEdit(EMPTY_HISTORY, scene.dialogue);
+    const undone = undoEdit(history, removeLine(scene, 'a').dialogue)!;
+    expect(undone.history.future).toHaveLength(1);
+    expect(recordEdit(undone.history, undone.dialogue).future).toEqual([]);
+  });
+
+  it(`keeps at most ${MAX_HISTORY} steps`, () => {
+    let history = EMPTY_HISTORY;
+    for (let i = 0; i <= MAX_HISTORY; i++) history = recordEdit(history, [line(`step-${i}`, 'A', 'x')]);
+    expect(history.past).toHaveLength(MAX_HISTORY);
+    expect(history.past[0][0].id).toBe('step-1');
+  });
+});
+
+describe('line edits', () => {
+  it('gives inserted lines to the character from two lines back', () => {
+    const { scene: inserted, line: added } = insertLineAfter(scene, 'b');
+    expect(inserted.dialogue.map(l => l.id)).toEqual(['a', 'b', added.id, 'c']);
+    expect(added).toMatchObject({ character: 'MARA', text: NEW_LINE_TEXT });
+    expect(insertLineAfter({ ...scene, dialogue: [] }, null).line.character).toBe('NARRATOR');
+  });
+
+  it('moves lines and ignores moves past either end', () => {
+    expect(moveLine(scene, 'a', 2).dialogue.map(l => l.id)).toEqual(['b', 'c', 'a']);
+    expect(moveLine(scene, 'a', -1)).toBe(scene);
+  });
+
+  it('lists removed and rewritten lines but not pure reorders', () => {
+    const after = moveLine(removeLine(scene, 'c'), 'b', -1);
+    expect(changedLineIds(scene.dialogue, after.dialogue)).toEqual(['c']);
+    expect(changedLineIds(scene.dialogue, updateLine(scene, 'a', { character: 'JONAS' }).dialogue)).toEqual(['a']);
+  });
+
+  it('flags takes whose line changed since recording, but not legacy takes', () => {
+    const [stamped] = stampTakeScripts([take('a')], scene.dialogue);
+    expect(stamped.script).toEqual({ character: 'MARA', text: 'One.', emotion: 'neutral' });
+    expect(isTakeStale(stamped, scene.dialogue[0])).toBe(false);
+    expect(isTakeStale(stamped, { ...scene.dialogue[0], text: 'Uno.' })).toBe(true);
+    expect(isTakeStale(take('a'), { ...scene.dialogue[0], text: 'Uno.' })).toBe(false);
+  });
+
+  it('keeps takes and reference reads when only the emotion changes', () => {
+    const edited = updateLine(scene, 'a', { emotion: 'furious' });
+    expect(changedLineIds(scene.dialogue, edited.dialogue)).toEqual([]);
+    const [stamped] = stampTakeScripts([take('a')], scene.dialogue);
+    expect(isTakeStale(stamped, edited.dialogue[0])).toBe(false);
+  });
+});
@@ -0,0 +1,121 @@
+
+import { Scene, DialogueLine, DubbingPerformance, LineScript } from "../types";
+import { createId } from "./id";
+
+/**
+ * Pure helpers for editing a scene's script in place. Line ids survive every
+ * edit, so takes, cues, casting and mix settings stay attached; a deleted
+ * line's takes are kept too, so undoing the delete brings them back. Undo
+ * history holds dialogue snapshots only, leaving renders that finish in the
+ * meantime untouched.
+ */
+
+export const MAX_HISTORY = 100;
+export const NEW_LINE_TEXT = 'New line.';
+export const NEW_LINE_EMOTION = 'neutral';
+
+export interface ScriptHistory {
+  past: DialogueLine[][];
+  future: DialogueLine[][];
+}
+
+export const EMPTY_HISTORY: ScriptHistory = { past: [], future: [] };
+
+export type LinePatch = Partial<LineScript>;
+
+export const lineScript = (line: DialogueLine): LineScript => ({
+  character: line.character,
+  text: line.text,
+  emotion: line.emotion
+});
+
+// Emotion is left out: it directs the delivery, but a take or reference read
+// of the same words by the same character still fits the line.
+const sameScript = (a: LineScript, b: LineScript) =>
+  a.character === b.character && a.text === b.text;
+
+// Takes without a recorded script predate editing and are never flagged.
+export const isTakeStale = (take: DubbingPerformance, line: DialogueLine): boolean =>
+  !!take.script && !sameScript(take.script, line);
+
+export const updateLine = (scene: Scene, lineId: string, patch: LinePatch): Scene => ({
+  ...scene,
+  dialogue: scene.dialogue.map(line => (line.id === lineId ? { ...line, ...patch } : line))
+});
+
+// New lines go to the character who spoke two lines earlier, so dialogue keeps alternating.
+export const insertLineAfter = (scene: Scene, lineId: string | null): { scene: Scene; line: DialogueLine } => {
+  const index = lineId === null ? scene.dialogue.length - 1 : scene.dialogue.findIndex(l => l.id === lineId);
+  const previous = scene.dialogue[index];
+  const line: DialogueLine = {
+    id: createId(),
+    character: scene.dialogue[index - 1]?.character ?? previous?.character ?? 'NARRATOR',
+    text: NEW_LINE_TEXT,
+    emotion: NEW_LINE_EMOTION
+  };
+  const dialogue = [...scene.dialogue];
+  dialogue.splice(index + 1, 0, line);
+  return { scene: { ...scene, dialogue }, line };
+};
+
+export const removeLine = (scene: Scene, lineId: string): Scene => ({
+  ...scene,
+  dialogue: scene.dialogue.filter(line => line.id !== lineId)
+});
+
+// Moves a line by `delta` places; a move past either end leaves the scene as it is.
+export const moveLine = (scene: Scene, lineId: string, delta: number): Scene => {
+  const from = scene.dialogue.findIndex(line => line.id === lineId);
+  const to = from + delta;
+  if (from < 0 || to < 0 || to >= scene.dialogue.length) return scene;
+  const dialogue = [...scene.dialogue];
+  const [line] = dialogue.splice(from, 1);
+  dialogue.splice(to, 0, line);
+  return { ...scene, dialogue };
+};
+
+// Lines that were removed, or whose character or text changed, between two versions.
+export const changedLineIds = (before: DialogueLine[], after: DialogueLine[]): string[] => {
+  const next = new Map(after.map(line => [line.id, line]));
+  return before
+    .filter(line => {
+      const edited = next.get(line.id);
+      return !edited || !sameScript(line, edited);
+    })
+    .map(line => line.id);
+};
+
+/**
+ * Gives takes recorded before script editing existed the script of the line
+ * they were recorded against, so they show as stale once it changes.
+ */
+export const stampTakeScripts = (takes: DubbingPerformance[], lines: DialogueLine[]): DubbingPerformance[] => {
+  const byId = new Map(lines.map(line => [line.id, line]));
+  return takes.map(take => {
+    const line = byId.get(take.lineId);
+    return !take.script && line ? { ...take, script: lineScript(line) } : take;
+  });
+};
+
+export const recordEdit = (history: ScriptHistory, before: DialogueLine[]): ScriptHistory => ({
+  past: [...history.past, before].slice(-MAX_HISTORY),
+  future: []
+});
+
+// Null when there is nothing to undo.
+export const undoEdit = (history: ScriptHistory, current: DialogueLine[]): { history: ScriptHistory; dialogue: DialogueLine[] } | null => {
+  if (history.past.length === 0) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [current, ...history.future] },
+    dialogue: history.past[history.past.length - 1]
+  };
+};
+
+// Null when there is nothing to redo.
+export const redoEdit = (history: ScriptHistory, current: DialogueLine[]): { history: ScriptHistory; dialogue: DialogueLine[] } | null => {
+  if (history.future.length === 0) return null;
+  return {
+    history: { past: [...history.past, current], future: history.future.slice(1) },
+    dialogue: history.future[0]
+  };
+};
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { parseScript, detectScriptFormat, ScriptParseError } from './scriptImport';
+
+const SRT = `1
+00:00:01,000 --> 00:00:02,500
+MARA: (angry) That case is mine.
+
+2
+00:00:03,000 --> 00:00:04,250
+<i>So is this one.</i>
+`;
+
+const VTT = `WEBVTT
+
+NOTE written by hand
+
+cue-1
+00:01.000 --> 00:02.000 align:start
+<v Jonas>Funny. So do I.
+`;
+
+const FOUNTAIN = `Title: The Last Train
+
+EXT. PLATFORM - NIGHT
+
+Rain hammers the roof.
+
+MARA
+(defiant)
+That case is mine.
+
+JONAS (V.O.)
+Funny.
+(amused)
+So do I.
+`;
+
+describe('detectScriptFormat', () => {
+  it('trusts the file extension first', () => {
+    expect(detectScriptFormat('MARA: hi', 'scene.fountain')).toBe('fountain');
+    expect(detectScriptFormat('MARA: hi', 'scene.SRT')).toBe('srt');
+  });
+
+  it('recognises each format from its content', () => {
+    expect(detectScriptFormat(SRT)).toBe('srt');
+    expect(detectScriptFormat(VTT)).toBe('vtt');
+    expect(detectScriptFormat(FOUNTAIN)).toBe('fountain');
+    expect(detectScriptFormat('MARA: That case is mine.')).toBe('plain');
+  });
+});
+
+describe('parseScript', () => {
+  it('keeps SRT cue times and speaker prefixes', () => {
+    const scene = parseScript(SRT, { format: 'srt', language: 'en' });
+    expect(scene.dialogue.map(({ character, text, emotion }) => ({ character, text, emotion }))).toEqual([
+      { character: 'MARA', text: 'That case is mine.', emotion: 'angry' },
+      { character: 'SPEAKER', text: 'So is this one.', emotion: 'neutral' }
+    ]);
+    expect(scene.cues?.[scene.dialogue[1].id]).toEqual({ start: 3, end: 4.25 });
+  });
+
+  it('reads WebVTT voice tags and skips notes', () => {
+    const scene = parseScript(VTT, { format: 'vtt', language: 'en' });
+    expect(scene.dialogue).toHaveLength(1);
+    expect(scene.dialogue[0]).toMatchObject({ character: 'JONAS', text: 'Funny. So do I.' });
+    expect(scene.cues?.[scene.dialogue[0].id]).toEqual({ start: 1, end: 2 });
+  });
+
+  it('splits Fountain dialogue at later parentheticals and takes the title page', () => {
+    const scene = parseScript(FOUNTAIN, { format: 'fountain', language: 'en' });
+    expect(scene.title).toBe('The Last Train');
+    expect(scene.context).toBe('EXT. PLATFORM - NIGHT — Rain hammers the roof.');
+    expect(scene.dialogue.map(({ character, text, emotion }) => ({ character, text, emotion }))).toEqual([
+      { character: 'MARA', text: 'That case is mine.', emotion: 'defiant' },
+      { character: 'JONAS', text: 'Funny.', emotion: 'neutral' },
+      { character: 'JONAS', text: 'So do I.', emotion: 'amused' }
+    ]);
+    expect(scene.cues).toBeUndefined();
+  });
+
+  it('joins wrapped plain lines and falls back to the given title', () => {
+    const scene = parseScript('# draft\nMara (tense): Then one of us\nis about to miss a train.\nJONAS: Or not.', {
+      format: 'plain',
+      language: 'en',
+      fallbackTitle: 'draft-2'
+    });
+    expect(scene.title).toBe('draft-2');
+    expect(scene.dialogue.map(line => [line.character, line.text, line.emotion])).toEqual([
+      ['MARA', 'Then one of us is about to miss a train.', 'tense'],
+      ['JONAS', 'Or not.', 'neutral']
+    ]);
+  });
+
+  it('reports the line number of malformed input', () => {
+    const parse = (source: string) => () => parseScript(source, { format: 'srt', language: 'en' });
+    expect(parse('1\n00:00:02,000 --> 00:00:01,000\nBackwards.')).toThrow('Line 2: Cue ends before it starts.');
+    expect(() => parseScript('Just some prose.', { format: 'plain', language: 'en' })).toThrow(ScriptParseError);
+    expect(() => parseScript('   ', { format: 'plain', language: 'en' })).toThrow('The script is empty.');
+  });
+});
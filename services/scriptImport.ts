@@ -0,0 +1,265 @@
+
+import { Scene, DialogueLine, CueTiming } from "../types";
+import { createId } from "./id";
+
+export type ScriptFormat = 'fountain' | 'srt' | 'vtt' | 'plain';
+
+export const SCRIPT_FORMATS: { id: ScriptFormat; name: string }[] = [
+  { id: 'fountain', name: 'Fountain screenplay' },
+  { id: 'srt', name: 'SRT subtitles' },
+  { id: 'vtt', name: 'WebVTT subtitles' },
+  { id: 'plain', name: 'CHARACTER: line text' }
+];
+
+export class ScriptParseError extends Error {
+  constructor(message: string, public lineNumber: number) {
+    super(`Line ${lineNumber}: ${message}`);
+    this.name = 'ScriptParseError';
+  }
+}
+
+interface ParsedScript {
+  title?: string;
+  context?: string;
+  lines: (Omit<DialogueLine, 'id'> & { cue?: CueTiming })[];
+}
+
+const DEFAULT_EMOTION = 'neutral';
+const UNKNOWN_CHARACTER = 'SPEAKER';
+
+const splitLines = (text: string) => text.replace(/^﻿/, '').replace(/\r\n?/g, '\n').split('\n');
+
+// "(angry) Get out!" or "[whispering] Over here" -> emotion + text.
+const takeLeadingEmotion = (text: string): { emotion?: string; text: string } => {
+  const match = text.match(/^\s*[([]([^)\]]+)[)\]]\s*(.*)$/);
+  return match ? { emotion: match[1].trim().toLowerCase(), text: match[2] } : { text };
+};
+
+export const detectScriptFormat = (text: string, fileName?: string): ScriptFormat => {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'fountain' || extension === 'spmd') return 'fountain';
+  if (extension === 'srt') return 'srt';
+  if (extension === 'vtt') return 'vtt';
+
+  const trimmed = text.replace(/^﻿/, '').trimStart();
+  if (trimmed.startsWith('WEBVTT')) return 'vtt';
+  if (/^\d+\s*\n\s*\d{1,2}:\d{2}:\d{2}[,.]\d{1,3}\s*-->/.test(trimmed.replace(/\r/g, ''))) return 'srt';
+  if (/^(INT|EXT|EST|INT\.?\/EXT|I\/E)[. ]/m.test(trimmed) || /^Title:/i.test(trimmed)) return 'fountain';
+  return 'plain';
+};
+
+// --- Subtitles -------------------------------------------------------------
+
+const parseTimestamp = (value: string, lineNumber: number): number => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})[,.](\d{1,3})$/);
+  if (!match) throw new ScriptParseError(`Invalid timestamp "${value.trim()}".`, lineNumber);
+  const [, h = '0', m, s, ms] = match;
+  return Number(h) * 3600 + Number(m) * 60 + Number(s) + Number(ms.padEnd(3, '0')) / 1000;
+};
+
+const parseCueTiming = (line: string, lineNumber: number): CueTiming => {
+  const [startText, rest] = line.split('-->');
+  if (rest === undefined) throw new ScriptParseError('Expected a cue timing line like "00:00:01,000 --> 00:00:02,500".', lineNumber);
+  // WebVTT allows cue settings after the end time.
+  const start = parseTimestamp(startText, lineNumber);
+  const end = parseTimestamp(rest.trim().split(/\s+/)[0], lineNumber);
+  if (end < start) throw new ScriptParseError('Cue ends before it starts.', lineNumber);
+  return { start, end };
+};
+
+const cueToLine = (textLines: string[], cue: CueTiming): ParsedScript['lines'][number] => {
+  let text = textLines.join(' ').trim();
+  let character = UNKNOWN_CHARACTER;
+
+  const voice = text.match(/^<v(?:\.[^\s>]+)*\s+([^>]+)>/);
+  if (voice) {
+    character = voice[1].trim();
+    text = text.slice(voice[0].length);
+  }
+  text = text.replace(/<[^>]+>/g, '').replace(/\{[^}]*\}/g, '').trim();
+
+  const speaker = text.match(/^([^:]{1,40}):\s+(.*)$/);
+  if (!voice && speaker) {
+    character = speaker[1].trim();
+    text = speaker[2];
+  }
+  const { emotion, text: spoken } = takeLeadingEmotion(text);
+  return { character: character.toUpperCase(), text: spoken.trim(), emotion: emotion || DEFAULT_EMOTION, cue };
+};
+
+const parseSubtitles = (source: string, format: 'srt' | 'vtt'): ParsedScript => {
+  const rows = splitLines(source);
+  const lines: ParsedScript['lines'] = [];
+  let i = 0;
+
+  if (format === 'vtt') {
+    if (!rows[0]?.replace(/^﻿/, '').startsWith('WEBVTT')) throw new ScriptParseError('WebVTT files must start with "WEBVTT".', 1);
+    // Skip the header block.
+    while (i < rows.length && rows[i].trim() !== '') i++;
+  }
+
+  while (i < rows.length) {
+    if (rows[i].trim() === '') { i++; continue; }
+    const blockStart = i;
+    const block: string[] = [];
+    while (i < rows.length && rows[i].trim() !== '') block.push(rows[i++]);
+
+    if (format === 'vtt' && /^(NOTE|STYLE|REGION)\b/.test(block[0])) continue;
+
+    const timingIndex = block.findIndex(row => row.includes('-->'));
+    if (timingIndex < 0 || timingIndex > 1) {
+      throw new ScriptParseError('Expected a cue timing line ("start --> end").', blockStart + 1);
+    }
+    if (format === 'srt' && timingIndex === 1 && !/^\d+$/.test(block[0].trim())) {
+      throw new ScriptParseError(`Expected a cue number, found "${block[0].trim()}".`, blockStart + 1);
+    }
+    const cue = parseCueTiming(block[timingIndex], blockStart + timingIndex + 1);
+    const textLines = block.slice(timingIndex + 1);
+    if (textLines.length === 0) throw new ScriptParseError('Cue has no text.', blockStart + timingIndex + 1);
+    lines.push(cueToLine(textLines, cue));
+  }
+  return { lines };
+};
+
+// --- Fountain --------------------------------------------------------------
+
+const stripFountainMarkup = (source: string) =>
+  source
+    .replace(/\/\*[\s\S]*?\*\//g, match => match.replace(/[^\n]/g, ''))
+    .replace(/\[\[[\s\S]*?\]\]/g, match => match.replace(/[^\n]/g, ''));
+
+const isSceneHeading = (line: string) =>
+  /^(INT|EXT|EST|INT\.?\/EXT|I\/E)[. ]/i.test(line) || /^\.[^.]/.test(line);
+
+const isCharacterCue = (line: string) => {
+  if (line.startsWith('@')) return true;
+  const name = line.replace(/\s*\([^)]*\)\s*\^?\s*$/, '').replace(/\s*\^$/, '');
+  return /[A-Z]/.test(name) && name === name.toUpperCase() && !/^[!#=~>]/.test(name) && !isSceneHeading(line) && !/TO:$/.test(name);
+};
+
+const parseFountain = (source: string): ParsedScript => {
+  const rows = splitLines(stripFountainMarkup(source));
+  const lines: ParsedScript['lines'] = [];
+  let title: string | undefined;
+  let heading: string | undefined;
+  let action: string | undefined;
+  let i = 0;
+
+  // Title page: "Key: value" pairs up to the first blank line.
+  if (/^[A-Za-z ]+:/.test(rows[0] || '')) {
+    while (i < rows.length && rows[i].trim() !== '') {
+      const match = rows[i].match(/^Title:\s*(.*)$/i);
+      if (match) title = match[1].replace(/[_*]/g, '').trim() || undefined;
+      i++;
+    }
+  }
+
+  for (; i < rows.length; i++) {
+    const row = rows[i].trim();
+    if (row === '') continue;
+
+    const previousBlank = i === 0 || rows[i - 1].trim() === '';
+    const next = rows[i + 1]?.trim() ?? '';
+
+    if (previousBlank && isSceneHeading(row)) {
+      if (!heading) heading = row.replace(/^\./, '');
+      continue;
+    }
+
+    if (previousBlank && next !== '' && isCharacterCue(row)) {
+      const cueLine = i + 1;
+      const character = row.replace(/^@/, '').replace(/\s*\^$/, '').replace(/\s*\((V\.O\.|O\.S\.|O\.C\.|CONT'D)\)/gi, '').trim();
+      let emotion: string | undefined;
+      const speech: string[] = [];
+      i++;
+      while (i < rows.length && rows[i].trim() !== '') {
+        const text = rows[i].trim();
+        const parenthetical = text.match(/^\((.*)\)$/);
+        if (parenthetical) {
+          // A parenthetical before the first speech sets the emotion; later ones start a new beat.
+          if (speech.length === 0) emotion = parenthetical[1].trim().toLowerCase();
+          else {
+            lines.push({ character: character.toUpperCase(), text: speech.join(' '), emotion: emotion || DEFAULT_EMOTION });
+            speech.length = 0;
+            emotion = parenthetical[1].trim().toLowerCase();
+          }
+        } else {
+          speech.push(text);
+        }
+        i++;
+      }
+      if (speech.length === 0) throw new ScriptParseError(`Character cue "${character}" has no dialogue.`, cueLine);
+      lines.push({ character: character.toUpperCase(), text: speech.join(' '), emotion: emotion || DEFAULT_EMOTION });
+      continue;
+    }
+
+    // The first action line describes the scene; sections, synopses and transitions don't.
+    if (!action && !/^[>=#~]/.test(row)) action = row.replace(/^!/, '');
+  }
+  const context = [heading, action].filter(Boolean).join(' — ') || undefined;
+  return { title, context, lines };
+};
+
+// --- Plain "CHARACTER: line" ----------------------------------------------
+
+const parsePlain = (source: string): ParsedScript => {
+  const rows = splitLines(source);
+  const lines: ParsedScript['lines'] = [];
+
+  rows.forEach((raw, index) => {
+    const row = raw.trim();
+    if (row === '' || row.startsWith('#')) return;
+
+    const match = row.match(/^([^:()[\]]{1,40}?)\s*(?:[([]([^)\]]+)[)\]])?\s*:\s*(.*)$/);
+    if (match) {
+      const { emotion: inlineEmotion, text } = takeLeadingEmotion(match[3]);
+      if (!text.trim()) throw new ScriptParseError(`Line for "${match[1].trim()}" has no text.`, index + 1);
+      lines.push({
+        character: match[1].trim().toUpperCase(),
+        text: text.trim(),
+        emotion: (match[2] || inlineEmotion || DEFAULT_EMOTION).trim().toLowerCase()
+      });
+    } else if (lines.length > 0) {
+      // Wrapped continuation of the previous line.
+      lines[lines.length - 1].text += ` ${row}`;
+    } else {
+      throw new ScriptParseError(`Expected "CHARACTER: line", found "${row.slice(0, 40)}".`, index + 1);
+    }
+  });
+  return { lines };
+};
+
+/**
+ * Parses pasted or uploaded script text into a Scene. Subtitle cue times are
+ * kept in Scene.cues so timing exports and the prompter can use them.
+ */
+export const parseScript = (
+  source: string,
+  { format, language, fallbackTitle }: { format: ScriptFormat; language: string; fallbackTitle?: string }
+): Scene => {
+  if (!source.trim()) throw new ScriptParseError('The script is empty.', 1);
+
+  const parsed = format === 'fountain'
+    ? parseFountain(source)
+    : format === 'plain'
+      ? parsePlain(source)
+      : parseSubtitles(source, format);
+
+  if (parsed.lines.length === 0) throw new ScriptParseError('No dialogue lines were found.', 1);
+
+  const cues: Record<string, CueTiming> = {};
+  const dialogue: DialogueLine[] = parsed.lines.map(({ cue, ...line }) => {
+    const id = createId();
+    if (cue) cues[id] = cue;
+    return { ...line, id };
+  });
+
+  return {
+    id: createId(),
+    title: parsed.title || fallbackTitle || 'Imported Script',
+    context: parsed.context || `Imported ${SCRIPT_FORMATS.find(f => f.id === format)?.name ?? 'script'}`,
+    dialogue,
+    language,
+    cues: Object.keys(cues).length > 0 ? cues : undefined
+  };
+};
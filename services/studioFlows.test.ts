@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Scene, DubbingPerformance } from '../types';
+import { createStudioMachine, StudioMachine } from './studioMachine';
+import { createMockProvider } from './mockProvider';
+import { createStudioFlows, StudioFlowHost, AnalysedTake } from './studioFlows';
+import { DEFAULT_SCENE_OPTIONS } from './sceneOptions';
+
+const scene: Scene = {
+  id: 'scene-1',
+  title: 'The Last Train',
+  context: 'A rain-soaked platform.',
+  language: 'en',
+  dialogue: [
+    { id: 'a', character: 'MARA', text: 'That case is mine.', emotion: 'defiant' },
+    { id: 'b', character: 'JONAS', text: 'Funny.', emotion: 'amused' }
+  ]
+};
+
+const take: AnalysedTake = { id: 'take-1', audioBlob: new Blob(['audio']), duration: 1.5 };
+
+// Just enough of a MediaStream for the flows to stop it.
+const createStream = () => {
+  const track = { stop: vi.fn() };
+  return { stream: { getTracks: () => [track] } as unknown as MediaStream, track };
+};
+
+const createHost = (studio: StudioMachine) => {
+  const opened: { scene: Scene; name?: string }[] = [];
+  const takePatches: Partial<DubbingPerformance>[] = [];
+  const host: StudioFlowHost = {
+    setStatus: vi.fn(),
+    reportError: vi.fn(),
+    reportSceneWarnings: vi.fn(),
+    resetSession: vi.fn(),
+    openScene: (openedScene, name) => {
+      studio.send({ type: 'SCENE_OPENED' });
+      opened.push({ scene: openedScene, name });
+      return 'project-1';
+    },
+    setSceneImage: vi.fn(),
+    updateTake: (_takeId, patch) => { takePatches.push(patch); },
+    measureSync: async () => undefined,
+    measurePitch: async () => undefined,
+    getKeyPicker: () => undefined
+  };
+  return { host, opened, takePatches };
+};
+
+describe('createStudioFlows', () => {
+  let studio: StudioMachine;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    studio = createStudioMachine();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('opens a generated scene with its concept image and settles to READY', async () => {
+    const { host, opened } = createHost(studio);
+    const running = createStudioFlows(studio, createMockProvider(), host).createScene('a heist', 'en', DEFAULT_SCENE_OPTIONS, false);
+    expect(studio.getSnapshot().state).toBe('CREATING');
+    await vi.runAllTimersAsync();
+    await running;
+
+    expect(opened).toHaveLength(1);
+    expect(opened[0].scene.dialogue).toHaveLength(DEFAULT_SCENE_OPTIONS.lineCount);
+    expect(host.setSceneImage).toHaveBeenCalledWith(expect.stringMatching(/^data:image\/svg\+xml/));
+    expect(host.reportSceneWarnings).not.toHaveBeenCalled();
+    expect(studio.getSnapshot()).toEqual({ state: 'READY', hasScene: true });
+  });
+
+  it('opens a scene whose lines miss the requested length and passes on the warning', async () => {
+    const { host, opened } = createHost(studio);
+    const warnings = ['Lines average 30 syllables; make them shorter (8-20).'];
+    const provider = { ...createMockProvider(), generateScene: async () => ({ scene, warnings }) };
+    const running = createStudioFlows(studio, provider, host).createScene('a heist', 'en', DEFAULT_SCENE_OPTIONS, false);
+    await vi.runAllTimersAsync();
+    await running;
+
+    expect(opened[0].scene).toBe(scene);
+    expect(host.reportSceneWarnings).toHaveBeenCalledWith(warnings);
+    expect(host.reportError).not.toHaveBeenCalled();
+  });
+
+  it('drops a scene that arrives after cancel', async () => {
+    const { host, opened } = createHost(studio);
+    const running = createStudioFlows(studio, createMockProvider(), host).createScene('a heist', 'en', DEFAULT_SCENE_OPTIONS, false);
+    studio.cancel();
+    await vi.runAllTimersAsync();
+    await running;
+
+    expect(opened).toEqual([]);
+    expect(host.reportError).not.toHaveBeenCalled();
+    expect(studio.getSnapshot().state).toBe('IDLE');
+  });
+
+  it('ignores a translation requested while another flow is running', async () => {
+    const { host, opened } = createHost(studio);
+    const flows = createStudioFlows(studio, createMockProvider(), host);
+    const creating = flows.createScene('a heist', 'en', DEFAULT_SCENE_OPTIONS, false);
+    expect(await flows.translateScene(scene, 'de', 'Train')).toBe(false);
+    await vi.runAllTimersAsync();
+    await creating;
+    expect(opened).toHaveLength(1);
+  });
+
+  it('opens a translation as a new project', async () => {
+    const { host, opened } = createHost(studio);
+    const translating = createStudioFlows(studio, createMockProvider(), host).translateScene(scene, 'de', 'Train');
+    await vi.runAllTimersAsync();
+    expect(await translating).toBe(true);
+    expect(opened[0].name).toBe('Train (German)');
+    expect(opened[0].scene.id).not.toBe(scene.id);
+    expect(opened[0].scene.dialogue[0]).toMatchObject({ id: 'a', text: '[de] That case is mine.', sourceText: 'That case is mine.' });
+  });
+
+  it('records, transcribes and scores a take', async () => {
+    const { host, takePatches } = createHost(studio);
+    studio.send({ type: 'SCENE_OPENED' });
+    const recording = createStudioFlows(studio, createMockProvider(), host).recordTake(scene, scene.dialogue[0], {
+      openMicrophone: async () => createStream().stream,
+      captureTake: async () => {
+        expect(studio.getSnapshot().state).toBe('RECORDING');
+        return take;
+      },
+      end: vi.fn()
+    });
+    await vi.runAllTimersAsync();
+    await recording;
+
+    expect(takePatches.map(patch => Object.keys(patch)[0])).toEqual(['transcription', 'feedback']);
+    expect(studio.getSnapshot().state).toBe('READY');
+  });
+
+  it('settles when the microphone cannot be opened', async () => {
+    const { host } = createHost(studio);
+    studio.send({ type: 'SCENE_OPENED' });
+    const captureTake = vi.fn();
+    await createStudioFlows(studio, createMockProvider(), host).recordTake(scene, scene.dialogue[0], {
+      openMicrophone: async () => null,
+      captureTake,
+      end: vi.fn()
+    });
+    expect(captureTake).not.toHaveBeenCalled();
+    expect(studio.getSnapshot().state).toBe('READY');
+  });
+
+  it('reports a failed capture, releases the mic and settles', async () => {
+    const { host } = createHost(studio);
+    studio.send({ type: 'SCENE_OPENED' });
+    const { stream, track } = createStream();
+    const end = vi.fn();
+    await createStudioFlows(studio, createMockProvider(), host).recordTake(scene, scene.dialogue[0], {
+      openMicrophone: async () => stream,
+      captureTake: async () => { throw new Error('recorder failed to start'); },
+      end
+    });
+    expect(host.reportError).toHaveBeenCalledWith('Recording failed', expect.any(Error));
+    expect(track.stop).toHaveBeenCalled();
+    expect(end).toHaveBeenCalled();
+    expect(studio.getSnapshot().state).toBe('READY');
+  });
+
+  it('plays cast lines and records the user role in a table read', async () => {
+    const { host } = createHost(studio);
+    studio.send({ type: 'SCENE_OPENED' });
+    const steps: string[] = [];
+    const end = vi.fn();
+    const reading = createStudioFlows(studio, createMockProvider(), host).tableRead(scene, ['JONAS'], {
+      openMicrophone: async () => createStream().stream,
+      showLine: lineId => steps.push(`show ${lineId}`),
+      playCastLine: async line => { steps.push(`cast ${line.id}`); },
+      captureTake: async (_stream, line) => {
+        steps.push(`record ${line.id}`);
+        return take;
+      },
+      end
+    });
+    await vi.runAllTimersAsync();
+    await reading;
+
+    expect(steps).toEqual(['show a', 'cast a', 'show b', 'record b']);
+    expect(end).toHaveBeenCalled();
+    expect(studio.getSnapshot().state).toBe('READY');
+  });
+
+  it('ends a table read that is cancelled mid-run', async () => {
+    const { host } = createHost(studio);
+    studio.send({ type: 'SCENE_OPENED' });
+    const { stream, track } = createStream();
+    const end = vi.fn();
+    const playCastLine = vi.fn(async () => { studio.cancel(); });
+    await createStudioFlows(studio, createMockProvider(), host).tableRead(scene, ['JONAS'], {
+      openMicrophone: async () => stream,
+      showLine: () => {},
+      playCastLine,
+      captureTake: vi.fn(),
+      end
+    });
+    expect(playCastLine).toHaveBeenCalledTimes(1);
+    expect(track.stop).toHaveBeenCalled();
+    expect(end).toHaveBeenCalled();
+    expect(host.reportError).not.toHaveBeenCalled();
+    expect(studio.getSnapshot().state).toBe('READY');
+  });
+});
@@ -0,0 +1,277 @@
+import { Scene, DialogueLine, DubbingPerformance, SyncAnalysis, PitchComparison } from "../types";
+import { AIProvider } from "./aiProvider";
+import { StudioMachine, isBusy } from "./studioMachine";
+import { enqueueJob } from "./renderJobs";
+import { buildTableReadSteps } from "./tableRead";
+import { languageName, restoreSourceScene } from "./translation";
+import { SceneOptions, validateSceneOptions } from "./sceneOptions";
+import { createId } from "./id";
+
+/**
+ * The studio's long-running work: creating, importing and translating scenes,
+ * recording and analysing takes, and table reads. Each flow claims the studio
+ * machine for as long as it runs and checks its AbortSignal after every await.
+ * The UI supplies everything on screen and at the microphone through the host
+ * and recorder interfaces, so the flows hold no React state of their own.
+ */
+
+// What analysis needs of a freshly captured or edited take.
+export type AnalysedTake = Pick<DubbingPerformance, 'id' | 'audioBlob' | 'duration' | 'prompter'>;
+
+// The AI Studio key picker, window.aistudio.
+export interface KeyPicker {
+  hasSelectedApiKey: () => Promise<boolean>;
+  openSelectKey: () => Promise<void>;
+}
+
+export interface StudioFlowHost {
+  // Progress shown while the studio is busy; an empty string clears it.
+  setStatus: (status: string) => void;
+  reportError: (context: string, err: unknown) => void;
+  // Shortfalls of a generated scene that was still opened; see GeneratedScene.
+  reportSceneWarnings: (warnings: string[]) => void;
+  // Drops the previous scene's takes, comparisons and reference reads.
+  resetSession: () => void;
+  // Opens a scene as a new project and returns the project's id.
+  openScene: (scene: Scene, name?: string) => string;
+  setSceneImage: (imageUrl: string) => void;
+  updateTake: (takeId: string, patch: Partial<DubbingPerformance>) => void;
+  // Local measurements; undefined when a take can't be measured.
+  measureSync: (scene: Scene, line: DialogueLine, take: AnalysedTake) => Promise<SyncAnalysis | undefined>;
+  measurePitch: (scene: Scene, line: DialogueLine, take: AnalysedTake) => Promise<PitchComparison | undefined>;
+  // Only present inside AI Studio.
+  getKeyPicker: () => KeyPicker | undefined;
+}
+
+export interface TakeRecorder {
+  // Null when the mic couldn't be opened (the UI has said why) or the run was cancelled meanwhile.
+  openMicrophone: (signal: AbortSignal) => Promise<MediaStream | null>;
+  // Resolves with the stored take once the recorder stops; null when the run
+  // was cancelled before anything was captured.
+  captureTake: (stream: MediaStream, line: DialogueLine, signal: AbortSignal) => Promise<AnalysedTake | null>;
+  // Clears the prompter once the run is over, however it ended. The flow stops the mic itself.
+  end: () => void;
+}
+
+export interface TableReader extends TakeRecorder {
+  showLine: (lineId: string) => void;
+  // Reads a cast line aloud, or holds it silently when no read is available.
+  playCastLine: (line: DialogueLine, signal: AbortSignal) => Promise<void>;
+}
+
+export interface StudioFlows {
+  // Opens the key picker when no key has been chosen; false if the studio was busy.
+  ensureApiKey: () => Promise<boolean>;
+  createScene: (prompt: string, language: string, options: SceneOptions, includeVideo: boolean) => Promise<void>;
+  // Imported scripts start rehearsal-ready; visuals are optional extras.
+  importScene: (scene: Scene, visuals: { generateImage: boolean; includeVideo: boolean }) => Promise<void>;
+  // Resolves true once the translation is open as a new project.
+  translateScene: (scene: Scene, targetLanguage: string, projectName: string) => Promise<boolean>;
+  analyseTake: (scene: Scene, line: DialogueLine, take: AnalysedTake, signal?: AbortSignal) => Promise<void>;
+  recordTake: (scene: Scene, line: DialogueLine, recorder: TakeRecorder) => Promise<void>;
+  tableRead: (scene: Scene, roles: string[], reader: TableReader) => Promise<void>;
+}
+
+export const createStudioFlows = (studio: StudioMachine, provider: AIProvider, host: StudioFlowHost): StudioFlows => {
+  const ensureApiKey = async () => {
+    const picker = host.getKeyPicker();
+    if (!provider.requiresApiKey || !picker) return true;
+    const signal = studio.begin({ type: 'CHECK_KEY' });
+    if (!signal) return false;
+    try {
+      if (!(await picker.hasSelectedApiKey())) await picker.openSelectKey();
+      return true; // Assume success after opening dialog
+    } finally {
+      studio.finish(signal);
+    }
+  };
+
+  const addSceneVisuals = async (scene: Scene, projectId: string, { image, video, videoPrompt }: { image: boolean; video: boolean; videoPrompt: string }, signal: AbortSignal) => {
+    let imageUrl: string | null = null;
+    if (image) {
+      host.setStatus("Designing concept frames...");
+      try {
+        const generatedUrl = await provider.generateSceneImage(scene.title, scene.context);
+        if (signal.aborted) return;
+        if (generatedUrl) {
+          imageUrl = generatedUrl;
+          host.setSceneImage(generatedUrl);
+        }
+      } catch (err) {
+        if (signal.aborted) return;
+        // The scene is still usable without its concept image.
+        host.reportError("Concept image failed", err);
+      }
+    }
+
+    // The video renders in the background; rehearsal carries on against the image.
+    if (video) {
+      enqueueJob({
+        kind: 'sceneVideo',
+        projectId,
+        sceneId: scene.id,
+        label: `${scene.title} · scene video`,
+        start: () => provider.startSceneVideo(videoPrompt, imageUrl || undefined)
+      });
+    }
+  };
+
+  const createScene = async (prompt: string, language: string, options: SceneOptions, includeVideo: boolean) => {
+    // The options panel lists any problems with the options.
+    if (!prompt.trim() || !studio.can('CREATE') || validateSceneOptions(options).length > 0) return;
+
+    // Check key only if video is requested
+    if (includeVideo) {
+      await ensureApiKey();
+    }
+
+    const signal = studio.begin({ type: 'CREATE' });
+    if (!signal) return;
+
+    try {
+      host.setStatus("Writing cinematic script...");
+      const { scene, warnings } = await provider.generateScene(prompt, language, options);
+      if (signal.aborted) return;
+      host.resetSession();
+      const projectId = host.openScene(scene);
+      if (warnings.length > 0) host.reportSceneWarnings(warnings);
+      await addSceneVisuals(scene, projectId, { image: true, video: includeVideo, videoPrompt: prompt }, signal);
+    } catch (err) {
+      if (!signal.aborted) host.reportError("Scene generation failed", err);
+    } finally {
+      studio.finish(signal);
+      host.setStatus('');
+    }
+  };
+
+  const importScene = async (scene: Scene, { generateImage, includeVideo }: { generateImage: boolean; includeVideo: boolean }) => {
+    if (isBusy(studio.getSnapshot().state)) return;
+    if (includeVideo) {
+      await ensureApiKey();
+    }
+
+    if (!generateImage && !includeVideo) {
+      host.resetSession();
+      host.openScene(scene);
+      return;
+    }
+
+    const signal = studio.begin({ type: 'CREATE' });
+    if (!signal) return;
+    host.resetSession();
+    try {
+      const projectId = host.openScene(scene);
+      await addSceneVisuals(scene, projectId, { image: generateImage, video: includeVideo, videoPrompt: `${scene.title}. ${scene.context}` }, signal);
+    } finally {
+      studio.finish(signal);
+      host.setStatus('');
+    }
+  };
+
+  // Translations open as a new project so the original scene and its takes stay intact.
+  const translateScene = async (scene: Scene, target: string, projectName: string) => {
+    const signal = studio.begin({ type: 'CREATE' });
+    if (!signal) return false;
+    host.setStatus(`Translating script to ${languageName(target)}...`);
+    try {
+      const translated = target === scene.sourceLanguage
+        ? restoreSourceScene(scene)
+        : await provider.translateScene(scene, target);
+      if (signal.aborted) return false;
+      host.resetSession();
+      host.openScene({ ...translated, id: createId() }, `${projectName} (${languageName(target)})`);
+      return true;
+    } catch (err) {
+      if (!signal.aborted) host.reportError("Translation failed", err);
+      return false;
+    } finally {
+      studio.finish(signal);
+      host.setStatus('');
+    }
+  };
+
+  // A failed transcription leaves the take unscored rather than recording it as
+  // silence. Cancelling analysis keeps the take and drops whatever is pending.
+  const analyseTake = async (scene: Scene, line: DialogueLine, take: AnalysedTake, signal?: AbortSignal) => {
+    const measuring = host.measureSync(scene, line, take).then(sync => {
+      if (sync && !signal?.aborted) host.updateTake(take.id, { sync });
+      return sync;
+    });
+    host.measurePitch(scene, line, take).then(pitch => {
+      if (pitch && !signal?.aborted) host.updateTake(take.id, { pitch });
+    });
+
+    let transcription: string;
+    try {
+      transcription = await provider.transcribeAudio(take.audioBlob);
+    } catch (err) {
+      if (!signal?.aborted) host.reportError("Transcription failed", err);
+      return;
+    }
+    if (signal?.aborted) return;
+    host.updateTake(take.id, { transcription });
+
+    try {
+      const aiFeedback = await provider.getPerformanceFeedback(scene, line, take.duration, transcription, await measuring);
+      if (signal?.aborted) return;
+      host.updateTake(take.id, { feedback: aiFeedback });
+    } catch (err) {
+      if (!signal?.aborted) host.reportError("Director feedback failed", err);
+    }
+  };
+
+  // Runs once a recording run is over, however it ended: stops the run's mic
+  // and settles the studio, so a failure can't leave it stuck recording.
+  const endRun = (signal: AbortSignal, stream: MediaStream | null, recorder: TakeRecorder) => {
+    stream?.getTracks().forEach(track => track.stop());
+    recorder.end();
+    studio.finish(signal);
+    host.setStatus('');
+  };
+
+  // A single take holds the studio in ANALYZING until it's scored.
+  const recordTake = async (scene: Scene, line: DialogueLine, recorder: TakeRecorder) => {
+    const signal = studio.begin({ type: 'RECORD' });
+    if (!signal) return;
+    let stream: MediaStream | null = null;
+    try {
+      stream = await recorder.openMicrophone(signal);
+      if (!stream) return;
+      const take = await recorder.captureTake(stream, line, signal);
+      if (!take || !studio.send({ type: 'ANALYZE' })) return;
+      host.setStatus("Transcribing performance...");
+      await analyseTake(scene, line, take, signal);
+    } catch (err) {
+      if (!signal.aborted) host.reportError("Recording failed", err);
+    } finally {
+      endRun(signal, stream, recorder);
+    }
+  };
+
+  // Table read takes are analysed in the background so the run can carry on.
+  const tableRead = async (scene: Scene, roles: string[], reader: TableReader) => {
+    const signal = studio.begin({ type: 'RECORD' });
+    if (!signal) return;
+    let stream: MediaStream | null = null;
+    try {
+      stream = await reader.openMicrophone(signal);
+      if (!stream) return;
+      for (const { line, performer } of buildTableReadSteps(scene, roles)) {
+        reader.showLine(line.id);
+        if (performer === 'cast') {
+          await reader.playCastLine(line, signal);
+        } else {
+          const take = await reader.captureTake(stream, line, signal);
+          if (take) analyseTake(scene, line, take);
+        }
+        if (signal.aborted) return;
+      }
+    } catch (err) {
+      if (!signal.aborted) host.reportError("Table read failed", err);
+    } finally {
+      endRun(signal, stream, reader);
+    }
+  };
+
+  return { ensureApiKey, createScene, importScene, translateScene, analyseTake, recordTake, tableRead };
+};
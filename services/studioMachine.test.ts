@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createStudioMachine, transition, INITIAL_SNAPSHOT, StudioSnapshot } from './studioMachine';
+
+const ready: StudioSnapshot = { state: 'READY', hasScene: true };
+
+describe('transition', () => {
+  it('only allows recording with a scene open and analysis after recording', () => {
+    expect(transition(INITIAL_SNAPSHOT, { type: 'RECORD' })).toBeNull();
+    expect(transition(ready, { type: 'ANALYZE' })).toBeNull();
+    const recording = transition(ready, { type: 'RECORD' })!;
+    expect(recording.state).toBe('RECORDING');
+    expect(transition(recording, { type: 'ANALYZE' })?.state).toBe('ANALYZING');
+  });
+
+  it('rejects new work while busy', () => {
+    const creating = transition(ready, { type: 'CREATE' })!;
+    expect(transition(creating, { type: 'CREATE' })).toBeNull();
+    expect(transition(creating, { type: 'RECORD' })).toBeNull();
+    expect(transition(creating, { type: 'CHECK_KEY' })).toBeNull();
+    expect(transition(creating, { type: 'SCENE_CLOSED' })).toBeNull();
+  });
+
+  it('keeps creating when the new scene opens, then settles to READY', () => {
+    const creating = transition(INITIAL_SNAPSHOT, { type: 'CREATE' })!;
+    const opened = transition(creating, { type: 'SCENE_OPENED' })!;
+    expect(opened).toEqual({ state: 'CREATING', hasScene: true });
+    expect(transition(opened, { type: 'DONE' })).toEqual(ready);
+    expect(transition(creating, { type: 'CANCEL' })).toEqual(INITIAL_SNAPSHOT);
+  });
+
+  it('only settles busy states', () => {
+    expect(transition(ready, { type: 'DONE' })).toBeNull();
+    expect(transition(INITIAL_SNAPSHOT, { type: 'CANCEL' })).toBeNull();
+  });
+});
+
+describe('createStudioMachine', () => {
+  it('rejects a second piece of work while the first runs', () => {
+    const studio = createStudioMachine();
+    const first = studio.begin({ type: 'CREATE' });
+    expect(first).not.toBeNull();
+    expect(studio.begin({ type: 'CREATE' })).toBeNull();
+    expect(studio.send({ type: 'CHECK_KEY' })).toBe(false);
+    expect(studio.can('CREATE')).toBe(false);
+    expect(first!.aborted).toBe(false);
+    expect(studio.getSnapshot().state).toBe('CREATING');
+  });
+
+  it('aborts the running work on cancel and ignores its late finish', () => {
+    const studio = createStudioMachine();
+    studio.send({ type: 'SCENE_OPENED' });
+    const signal = studio.begin({ type: 'RECORD' })!;
+    studio.cancel();
+    expect(signal.aborted).toBe(true);
+    expect(studio.getSnapshot().state).toBe('READY');
+
+    const next = studio.begin({ type: 'CREATE' })!;
+    expect(studio.finish(signal)).toBe(false);
+    expect(studio.getSnapshot().state).toBe('CREATING');
+    expect(studio.finish(next)).toBe(true);
+    expect(studio.getSnapshot().state).toBe('READY');
+  });
+
+  it('does nothing on cancel when idle', () => {
+    const studio = createStudioMachine();
+    const listener = vi.fn();
+    studio.subscribe(listener);
+    studio.cancel();
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(studio.getSnapshot()).toEqual(INITIAL_SNAPSHOT);
+  });
+
+  it('notifies subscribers until they unsubscribe', () => {
+    const studio = createStudioMachine();
+    const listener = vi.fn();
+    const unsubscribe = studio.subscribe(listener);
+    studio.send({ type: 'SCENE_OPENED' });
+    unsubscribe();
+    studio.send({ type: 'SCENE_CLOSED' });
+    expect(listener.mock.calls.map(([snapshot]) => snapshot.state)).toEqual(['IDLE', 'READY']);
+  });
+});
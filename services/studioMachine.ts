@@ -0,0 +1,123 @@
+import { AppState } from "../types";
+
+/**
+ * The studio workflow as an explicit state machine. `transition` is pure:
+ * it either returns the next snapshot or null when the event isn't allowed
+ * from the current state, which is how concurrent actions get rejected.
+ * `createStudioMachine` wraps it with subscriptions and an AbortSignal per
+ * piece of async work, so cancelling or moving on can't be undone by a
+ * late-arriving result.
+ */
+
+export type StudioEvent =
+  // The AI Studio key picker is open.
+  | { type: 'CHECK_KEY' }
+  // Scene generation, translation, a line rewrite or concept art is in progress.
+  | { type: 'CREATE' }
+  // A scene is now open; leaves IDLE for READY, otherwise only records the fact.
+  | { type: 'SCENE_OPENED' }
+  | { type: 'SCENE_CLOSED' }
+  // Count-in, take or table read.
+  | { type: 'RECORD' }
+  | { type: 'ANALYZE' }
+  // The current work finished, or was abandoned by the user.
+  | { type: 'DONE' }
+  | { type: 'CANCEL' };
+
+export type StudioEventType = StudioEvent['type'];
+
+export interface StudioSnapshot {
+  state: AppState;
+  hasScene: boolean;
+}
+
+export const INITIAL_SNAPSHOT: StudioSnapshot = { state: 'IDLE', hasScene: false };
+
+const BUSY_STATES: AppState[] = ['KEY_CHECK', 'CREATING', 'RECORDING', 'ANALYZING'];
+
+// Which states each event may be sent from.
+const ALLOWED_FROM: Record<StudioEventType, AppState[]> = {
+  CHECK_KEY: ['IDLE', 'READY'],
+  CREATE: ['IDLE', 'READY'],
+  SCENE_OPENED: ['IDLE', 'READY', 'CREATING'],
+  SCENE_CLOSED: ['IDLE', 'READY'],
+  RECORD: ['READY'],
+  ANALYZE: ['RECORDING'],
+  DONE: BUSY_STATES,
+  CANCEL: BUSY_STATES
+};
+
+export const isBusy = (state: AppState) => BUSY_STATES.includes(state);
+
+const settled = (hasScene: boolean): AppState => hasScene ? 'READY' : 'IDLE';
+
+export const canSend = (snapshot: StudioSnapshot, type: StudioEventType): boolean =>
+  ALLOWED_FROM[type].includes(snapshot.state);
+
+export const transition = (snapshot: StudioSnapshot, event: StudioEvent): StudioSnapshot | null => {
+  if (!canSend(snapshot, event.type)) return null;
+  switch (event.type) {
+    case 'CHECK_KEY': return { ...snapshot, state: 'KEY_CHECK' };
+    case 'CREATE': return { ...snapshot, state: 'CREATING' };
+    case 'SCENE_OPENED': return { hasScene: true, state: snapshot.state === 'CREATING' ? 'CREATING' : 'READY' };
+    case 'SCENE_CLOSED': return { hasScene: false, state: 'IDLE' };
+    case 'RECORD': return { ...snapshot, state: 'RECORDING' };
+    case 'ANALYZE': return { ...snapshot, state: 'ANALYZING' };
+    case 'DONE':
+    case 'CANCEL': return { ...snapshot, state: settled(snapshot.hasScene) };
+  }
+};
+
+export interface StudioMachine {
+  getSnapshot: () => StudioSnapshot;
+  subscribe: (listener: (snapshot: StudioSnapshot) => void) => () => void;
+  can: (type: StudioEventType) => boolean;
+  // Returns false, changing nothing, when the event isn't allowed right now.
+  send: (event: StudioEvent) => boolean;
+  // Sends an event that begins async work and returns the signal that work
+  // should check after each await, or null if the event was rejected.
+  begin: (event: StudioEvent) => AbortSignal | null;
+  // Settles the work that owns this signal. Late calls from cancelled or
+  // superseded work are ignored, so they can't end someone else's work.
+  finish: (signal: AbortSignal) => boolean;
+  // Aborts the current work and settles back to READY or IDLE.
+  cancel: () => void;
+}
+
+export const createStudioMachine = (): StudioMachine => {
+  let snapshot = INITIAL_SNAPSHOT;
+  let work: AbortController | null = null;
+  const listeners = new Set<(snapshot: StudioSnapshot) => void>();
+
+  const send = (event: StudioEvent): boolean => {
+    const next = transition(snapshot, event);
+    if (!next) return false;
+    if (event.type === 'CANCEL') work?.abort();
+    // Work belongs to the busy stretch it started in; settling releases it.
+    if (!isBusy(next.state)) work = null;
+    snapshot = next;
+    listeners.forEach(listener => listener(snapshot));
+    return true;
+  };
+
+  const begin = (event: StudioEvent): AbortSignal | null => {
+    if (!send(event)) return null;
+    work?.abort();
+    work = new AbortController();
+    return work.signal;
+  };
+
+  return {
+    getSnapshot: () => snapshot,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      listener(snapshot);
+      return () => { listeners.delete(listener); };
+    },
+    can: (type) => canSend(snapshot, type),
+    send,
+    begin,
+    finish: (signal) => !signal.aborted && work?.signal === signal && send({ type: 'DONE' }),
+    cancel: () => { if (isBusy(snapshot.state)) send({ type: 'CANCEL' }); }
+  };
+};
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { Scene, LineTiming, DubbingPerformance } from '../types';
+import { formatSrtTime, formatVttTime, formatTimecode, toSrt, toWebVtt, toCueSheetCsv } from './subtitles';
+
+const scene: Scene = {
+  id: 'scene-1',
+  title: 'Kitchen --> Nightmare',
+  context: '',
+  language: 'en',
+  dialogue: [
+    { id: 'a', character: 'CHEF', text: 'Who put it <there>?', emotion: 'furious' },
+    { id: 'b', character: 'PIP', text: 'It looked warm, "honestly".', emotion: 'panicked' }
+  ]
+};
+
+const timing: LineTiming[] = [
+  { lineId: 'a', index: 0, start: 1.5, end: 3, source: 'take', takeId: 'take-2' },
+  { lineId: 'b', index: 1, start: 62.345, end: 64, source: 'estimate' },
+  { lineId: 'gone', index: 2, start: 70, end: 71, source: 'estimate' }
+];
+
+const take = (id: string, takeNumber: number): DubbingPerformance => ({
+  id,
+  lineId: 'a',
+  takeNumber,
+  audioBlob: new Blob(),
+  duration: 1,
+  timestamp: 0
+});
+
+describe('time formats', () => {
+  it('formats SRT and WebVTT timestamps', () => {
+    expect(formatSrtTime(3723.0456)).toBe('01:02:03,046');
+    expect(formatVttTime(62.345)).toBe('00:01:02.345');
+    expect(formatSrtTime(-1)).toBe('00:00:00,000');
+  });
+
+  it('formats SMPTE timecode at the given frame rate', () => {
+    expect(formatTimecode(62.32)).toBe('00:01:02:08');
+    expect(formatTimecode(1.5, 30)).toBe('00:00:01:15');
+  });
+});
+
+describe('subtitle export', () => {
+  it('writes numbered SRT cues and skips lines no longer in the scene', () => {
+    expect(toSrt(scene, timing)).toBe(
+      '1\n00:00:01,500 --> 00:00:03,000\nCHEF: Who put it <there>?\n\n' +
+      '2\n00:01:02,345 --> 00:01:04,000\nPIP: It looked warm, "honestly".\n'
+    );
+  });
+
+  it('escapes WebVTT text and keeps arrows out of the header', () => {
+    const vtt = toWebVtt(scene, timing);
+    expect(vtt.startsWith('WEBVTT - Kitchen  Nightmare\n')).toBe(true);
+    expect(vtt).toContain('a\n00:00:01.500 --> 00:00:03.000\n<v CHEF>Who put it &lt;there&gt;?\n');
+  });
+
+  it('quotes CSV fields and lists every take of a line', () => {
+    const rows = toCueSheetCsv(scene, timing, [take('take-2', 2), take('take-1', 1)]).split('\r\n');
+    expect(rows[1]).toBe('1,CHEF,furious,Who put it <there>?,00:00:01:13,00:00:03:00,1.500,take,take-2,take-1 take-2');
+    expect(rows[2]).toContain('"It looked warm, ""honestly""."');
+    expect(rows).toHaveLength(4);
+  });
+});
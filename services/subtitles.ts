@@ -0,0 +1,75 @@
+import { Scene, DubbingPerformance, LineTiming } from "../types";
+import { getLineTakes } from "./takeManager";
+
+const pad = (value: number, length: number = 2) => Math.floor(value).toString().padStart(length, '0');
+
+const splitTime = (seconds: number) => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  return {
+    h: Math.floor(totalMs / 3600000),
+    m: Math.floor(totalMs / 60000) % 60,
+    s: Math.floor(totalMs / 1000) % 60,
+    ms: totalMs % 1000
+  };
+};
+
+// 00:01:02,345
+export const formatSrtTime = (seconds: number): string => {
+  const { h, m, s, ms } = splitTime(seconds);
+  return `${pad(h)}:${pad(m)}:${pad(s)},${pad(ms, 3)}`;
+};
+
+// 00:01:02.345
+export const formatVttTime = (seconds: number): string => {
+  const { h, m, s, ms } = splitTime(seconds);
+  return `${pad(h)}:${pad(m)}:${pad(s)}.${pad(ms, 3)}`;
+};
+
+// SMPTE non-drop-frame timecode, 00:01:02:08 at 25 fps.
+export const formatTimecode = (seconds: number, fps: number = 25): string => {
+  const totalFrames = Math.max(0, Math.round(seconds * fps));
+  const frames = totalFrames % fps;
+  const totalSeconds = Math.floor(totalFrames / fps);
+  return `${pad(totalSeconds / 3600)}:${pad((totalSeconds / 60) % 60)}:${pad(totalSeconds % 60)}:${pad(frames)}`;
+};
+
+const timedLines = (scene: Scene, timing: LineTiming[]) =>
+  timing
+    .map(t => ({ timing: t, line: scene.dialogue.find(l => l.id === t.lineId) }))
+    .filter((entry): entry is { timing: LineTiming; line: Scene['dialogue'][number] } => !!entry.line);
+
+export const toSrt = (scene: Scene, timing: LineTiming[]): string =>
+  timedLines(scene, timing)
+    .map(({ timing: t, line }, i) => `${i + 1}\n${formatSrtTime(t.start)} --> ${formatSrtTime(t.end)}\n${line.character}: ${line.text}\n`)
+    .join('\n');
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const toWebVtt = (scene: Scene, timing: LineTiming[]): string => {
+  const cues = timedLines(scene, timing).map(({ timing: t, line }) =>
+    `${line.id}\n${formatVttTime(t.start)} --> ${formatVttTime(t.end)}\n<v ${escapeVtt(line.character)}>${escapeVtt(line.text)}\n`
+  );
+  return [`WEBVTT - ${scene.title.replace(/-->/g, '')}\n`, ...cues].join('\n');
+};
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCueSheetCsv = (scene: Scene, timing: LineTiming[], takes: DubbingPerformance[], fps: number = 25): string => {
+  const header = ['Line', 'Character', 'Emotion', 'Text', 'Start', 'End', 'Duration (s)', 'Timing Source', 'Selected Take', 'All Takes'];
+  const rows = timedLines(scene, timing).map(({ timing: t, line }) => [
+    t.index + 1,
+    line.character,
+    line.emotion,
+    line.text,
+    formatTimecode(t.start, fps),
+    formatTimecode(t.end, fps),
+    (t.end - t.start).toFixed(3),
+    t.source,
+    t.takeId || '',
+    getLineTakes(takes, line.id).map(take => take.id).join(' ')
+  ]);
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,168 @@
+
+import { Scene, DialogueLine, PrompterTiming, SpeechSegment, SyncAnalysis, SyncTargetSource } from "../types";
+import { mixToMono, measureLevels, gainToDb, SILENCE_THRESHOLD_DB } from "./audioEdit";
+import { estimateDuration } from "./timing";
+import { ReferenceClip } from "./referenceCache";
+
+/**
+ * Local timing analysis: energy-based voice-activity detection on a take,
+ * compared with the line's cue window, reference read or a reading-speed
+ * estimate. Prompted takes are measured from their cue-in point; unprompted
+ * ones have their speech onset aligned with the target's, so only length
+ * and rate are meaningful for them.
+ */
+
+const FRAME_SECONDS = 0.02;
+// The speech threshold sits this far above the quietest frames, within the range below.
+const NOISE_MARGIN_DB = 12;
+const NOISE_FLOOR_PERCENTILE = 0.1;
+const MAX_THRESHOLD_DB = -30;
+// Shorter gaps are inside a phrase; shorter bursts are clicks and breaths.
+const MIN_GAP_SECONDS = 0.15;
+const MIN_SEGMENT_SECONDS = 0.06;
+
+export const PAUSE_SECONDS = 0.3;
+// Start and end differences within this count as on the mark.
+export const SYNC_TOLERANCE_SECONDS = 0.1;
+export const RATE_TOLERANCE = 0.15;
+
+export interface SyncTarget {
+  source: SyncTargetSource;
+  duration: number;
+  segments: SpeechSegment[];
+}
+
+export interface SyncFinding {
+  label: string;
+  value: string;
+  ok: boolean;
+}
+
+export const detectSpeechSegments = (samples: Float32Array, sampleRate: number): SpeechSegment[] => {
+  const frameSize = Math.max(1, Math.round(FRAME_SECONDS * sampleRate));
+  const levels: number[] = [];
+  for (let offset = 0; offset < samples.length; offset += frameSize) {
+    levels.push(gainToDb(measureLevels(samples.subarray(offset, offset + frameSize)).rms));
+  }
+  const audible = levels.filter(Number.isFinite).sort((a, b) => a - b);
+  const floor = audible.length ? audible[Math.floor(audible.length * NOISE_FLOOR_PERCENTILE)] : -Infinity;
+  const threshold = Math.min(MAX_THRESHOLD_DB, Math.max(SILENCE_THRESHOLD_DB, floor + NOISE_MARGIN_DB));
+
+  const duration = samples.length / sampleRate;
+  const frameSeconds = frameSize / sampleRate;
+  const segments: SpeechSegment[] = [];
+  levels.forEach((db, frame) => {
+    if (db < threshold) return;
+    const start = frame * frameSeconds;
+    const end = Math.min(duration, start + frameSeconds);
+    const last = segments[segments.length - 1];
+    if (last && start - last.end < MIN_GAP_SECONDS) last.end = end;
+    else segments.push({ start, end });
+  });
+  return segments.filter(segment => segment.end - segment.start >= MIN_SEGMENT_SECONDS);
+};
+
+const speechPauses = (segments: SpeechSegment[]): SpeechSegment[] =>
+  segments.slice(1)
+    .map((segment, i) => ({ start: segments[i].end, end: segment.start }))
+    .filter(gap => gap.end - gap.start >= PAUSE_SECONDS);
+
+/**
+ * What a take of the line is timed against, in the prompter's order: the
+ * imported cue window, then the reference read, then a reading-speed estimate.
+ */
+export const resolveSyncTarget = async (
+  scene: Scene,
+  line: DialogueLine,
+  loadReference: () => Promise<ReferenceClip | null>
+): Promise<SyncTarget> => {
+  const cue = scene.cues?.[line.id];
+  if (cue) return { source: 'cue', duration: cue.end - cue.start, segments: [{ start: 0, end: cue.end - cue.start }] };
+
+  try {
+    const clip = await loadReference();
+    if (clip) {
+      const { buffer } = clip;
+      const segments = detectSpeechSegments(mixToMono(buffer), buffer.sampleRate);
+      return { source: 'reference', duration: buffer.duration, segments: segments.length ? segments : [{ start: 0, end: buffer.duration }] };
+    }
+  } catch (err) {
+    console.error("Reference read unavailable for sync analysis", err);
+  }
+  const duration = estimateDuration(line.text);
+  return { source: 'estimate', duration, segments: [{ start: 0, end: duration }] };
+};
+
+// Null when no speech was found in the take.
+export const analyseSync = (take: AudioBuffer, target: SyncTarget, prompter?: PrompterTiming): SyncAnalysis | null => {
+  const segments = detectSpeechSegments(mixToMono(take), take.sampleRate);
+  if (segments.length === 0) return null;
+  const speechStart = segments[0].start;
+  const speechEnd = segments[segments.length - 1].end;
+  const targetStart = target.segments[0].start;
+  const targetEnd = target.segments[target.segments.length - 1].end;
+
+  const anchor = prompter ? prompter.windowStart : speechStart - targetStart;
+  return {
+    segments,
+    pauses: speechPauses(segments),
+    speechStart,
+    speechEnd,
+    anchor,
+    targetSource: target.source,
+    targetDuration: target.duration,
+    targetSegments: target.segments,
+    startOffset: prompter ? speechStart - anchor - targetStart : null,
+    overrun: speechEnd - anchor - targetEnd,
+    rateRatio: (targetEnd - targetStart) / Math.max(MIN_SEGMENT_SECONDS, speechEnd - speechStart)
+  };
+};
+
+const TARGET_LABELS: Record<SyncTargetSource, string> = {
+  cue: 'cue window',
+  reference: 'reference read',
+  estimate: 'estimated reading time'
+};
+
+const seconds = (value: number) => `${Math.abs(value).toFixed(2)}s`;
+
+// Readable measurements, shared by the overlay and the feedback prompt.
+export const syncFindings = (sync: SyncAnalysis): SyncFinding[] => {
+  const pauseTotal = sync.pauses.reduce((sum, pause) => sum + pause.end - pause.start, 0);
+  return [
+    {
+      label: 'Target',
+      value: `${TARGET_LABELS[sync.targetSource]}, ${sync.targetDuration.toFixed(2)}s`,
+      ok: true
+    },
+    {
+      label: 'Start',
+      value: sync.startOffset === null
+        ? 'not measured (no cue-in)'
+        : Math.abs(sync.startOffset) <= SYNC_TOLERANCE_SECONDS
+          ? `on cue (${sync.startOffset >= 0 ? '+' : '-'}${seconds(sync.startOffset)})`
+          : `${seconds(sync.startOffset)} ${sync.startOffset > 0 ? 'late' : 'early'}`,
+      ok: sync.startOffset === null || Math.abs(sync.startOffset) <= SYNC_TOLERANCE_SECONDS
+    },
+    {
+      label: 'End',
+      value: Math.abs(sync.overrun) <= SYNC_TOLERANCE_SECONDS
+        ? 'on the mark'
+        : sync.overrun > 0 ? `overruns by ${seconds(sync.overrun)}` : `finishes ${seconds(sync.overrun)} short`,
+      ok: Math.abs(sync.overrun) <= SYNC_TOLERANCE_SECONDS
+    },
+    {
+      label: 'Rate',
+      value: `${sync.rateRatio.toFixed(2)}x the target${sync.rateRatio > 1 ? ' (faster)' : sync.rateRatio < 1 ? ' (slower)' : ''}`,
+      ok: Math.abs(sync.rateRatio - 1) <= RATE_TOLERANCE
+    },
+    {
+      label: 'Pauses',
+      value: sync.pauses.length ? `${sync.pauses.length} (${pauseTotal.toFixed(2)}s total)` : 'none',
+      ok: true
+    }
+  ];
+};
+
+export const formatSyncReport = (sync: SyncAnalysis): string =>
+  syncFindings(sync).map(finding => `${finding.label}: ${finding.value}`).join('\n');
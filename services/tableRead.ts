@@ -0,0 +1,22 @@
+
+import { Scene, DialogueLine } from "../types";
+import { getCharacters } from "./casting";
+
+/**
+ * Turn order for a table read: the user's roles are recorded live and every
+ * other character is voiced by their cast TTS voice.
+ */
+
+export interface TableReadStep {
+  line: DialogueLine;
+  performer: 'user' | 'cast';
+}
+
+export const buildTableReadSteps = (scene: Scene, userRoles: string[]): TableReadStep[] =>
+  scene.dialogue.map(line => ({ line, performer: userRoles.includes(line.character) ? 'user' : 'cast' }));
+
+// Drops roles for characters no longer in the scene, e.g. after opening another project.
+export const validRoles = (scene: Scene, userRoles: string[]): string[] => {
+  const characters = getCharacters(scene);
+  return userRoles.filter(role => characters.includes(role));
+};
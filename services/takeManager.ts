@@ -0,0 +1,41 @@
+import { DubbingPerformance } from "../types";
+
+/**
+ * Pure helpers for the per-line take list. Takes are kept as a flat array in
+ * App state; every helper returns a new array so React state updates stay simple.
+ */
+
+export const getLineTakes = (takes: DubbingPerformance[], lineId: string): DubbingPerformance[] =>
+  takes.filter(t => t.lineId === lineId).sort((a, b) => a.takeNumber - b.takeNumber);
+
+export const nextTakeNumber = (takes: DubbingPerformance[], lineId: string): number =>
+  getLineTakes(takes, lineId).reduce((max, t) => Math.max(max, t.takeNumber), 0) + 1;
+
+export const addTake = (takes: DubbingPerformance[], take: DubbingPerformance): DubbingPerformance[] =>
+  [...takes, take];
+
+export const updateTake = (
+  takes: DubbingPerformance[],
+  takeId: string,
+  patch: Partial<Omit<DubbingPerformance, 'id' | 'lineId'>>
+): DubbingPerformance[] => takes.map(t => (t.id === takeId ? { ...t, ...patch } : t));
+
+export const deleteTake = (takes: DubbingPerformance[], takeId: string): DubbingPerformance[] =>
+  takes.filter(t => t.id !== takeId);
+
+// Only one take per line can be circled; circling the circled take clears it.
+export const toggleCircledTake = (takes: DubbingPerformance[], takeId: string): DubbingPerformance[] => {
+  const target = takes.find(t => t.id === takeId);
+  if (!target) return takes;
+  const circle = !target.circled;
+  return takes.map(t => (t.lineId === target.lineId ? { ...t, circled: circle && t.id === takeId } : t));
+};
+
+export const getCircledTake = (takes: DubbingPerformance[], lineId: string): DubbingPerformance | undefined =>
+  takes.find(t => t.lineId === lineId && t.circled);
+
+// The circled take if there is one, otherwise the most recent take.
+export const getPreferredTake = (takes: DubbingPerformance[], lineId: string): DubbingPerformance | undefined => {
+  const lineTakes = getLineTakes(takes, lineId);
+  return lineTakes.find(t => t.circled) || lineTakes[lineTakes.length - 1];
+};
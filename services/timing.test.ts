@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { Scene, DubbingPerformance, SyncAnalysis } from '../types';
+import { buildSceneTiming, takeSpan, estimateDuration } from './timing';
+
+const scene: Scene = {
+  id: 'scene-1',
+  title: 'The Last Train',
+  context: '',
+  language: 'en',
+  dialogue: [
+    { id: 'a', character: 'MARA', text: 'That case is mine.', emotion: 'defiant' },
+    { id: 'b', character: 'JONAS', text: 'Funny.', emotion: 'amused' }
+  ]
+};
+
+const take = (patch: Partial<DubbingPerformance> = {}): DubbingPerformance => ({
+  id: 'take-1',
+  lineId: 'a',
+  takeNumber: 1,
+  audioBlob: new Blob(),
+  duration: 6,
+  timestamp: 0,
+  ...patch
+});
+
+const prompter = { windowStart: 3, windowDuration: 1.5, windowSource: 'estimate' as const, countdown: 3, autoStopped: true };
+
+describe('takeSpan', () => {
+  it('prefers measured speech, then the prompter window, then the whole take', () => {
+    const sync = { speechStart: 3.2, speechEnd: 4.9 } as SyncAnalysis;
+    expect(takeSpan(take({ sync, prompter }))).toEqual({ start: 3.2, end: 4.9 });
+    expect(takeSpan(take({ prompter }))).toEqual({ start: 3, end: 4.5 });
+    expect(takeSpan(take())).toEqual({ start: 0, end: 6 });
+  });
+});
+
+describe('buildSceneTiming', () => {
+  it('times a prompted take by its window and leaves out the count-in and tail', () => {
+    const [first, second] = buildSceneTiming(scene, [take({ prompter })], {});
+    expect(first).toMatchObject({ start: 0, end: 1.5, source: 'take', takeId: 'take-1', takeOffset: 3 });
+    expect(second).toMatchObject({ start: 2, end: 2 + estimateDuration('Funny.'), source: 'estimate' });
+    expect(second.takeOffset).toBeUndefined();
+  });
+});
@@ -0,0 +1,76 @@
+import { Scene, DubbingPerformance, LineTiming, REFERENCE_SAMPLE_RATE } from "../types";
+import { getPreferredTake } from "./takeManager";
+
+export interface TimingOptions {
+  // Silence inserted between consecutive lines, in seconds.
+  gap?: number;
+  // Speaking rate used when a line has neither a take nor reference audio.
+  charsPerSecond?: number;
+}
+
+export const DEFAULT_CHARS_PER_SECOND = 15;
+
+export const estimateDuration = (text: string, charsPerSecond: number = DEFAULT_CHARS_PER_SECOND): number =>
+  Math.max(1, text.length / charsPerSecond);
+
+// Reference audio is 16-bit mono PCM, two bytes per sample.
+export const referenceDuration = (pcm: Uint8Array): number => pcm.length / 2 / REFERENCE_SAMPLE_RATE;
+
+/**
+ * The part of a take that holds the line, in seconds into its audio: the
+ * measured speech when the take has been analysed, else the prompter window.
+ * The whole take also holds the count-in and the auto-stop tail.
+ */
+export const takeSpan = (take: DubbingPerformance): { start: number; end: number } => {
+  if (take.sync && take.sync.speechEnd > take.sync.speechStart) {
+    return { start: take.sync.speechStart, end: take.sync.speechEnd };
+  }
+  if (take.prompter) {
+    const start = Math.max(0, take.prompter.windowStart);
+    return { start, end: Math.max(start, Math.min(take.duration, start + take.prompter.windowDuration)) };
+  }
+  return { start: 0, end: take.duration };
+};
+
+/**
+ * Lays the scene's lines out back to back. Each line lasts as long as the
+ * speech in its circled (or latest) take (see takeSpan), falling back to an imported cue window, the
+ * reference TTS read and then a reading-speed estimate. Lines with a cue
+ * always start at the cue's start time.
+ */
+export const buildSceneTiming = (
+  scene: Scene,
+  takes: DubbingPerformance[],
+  referenceAudio: Record<string, Uint8Array>,
+  { gap = 0.5, charsPerSecond = DEFAULT_CHARS_PER_SECOND }: TimingOptions = {}
+): LineTiming[] => {
+  let cursor = 0;
+  return scene.dialogue.map((line, index) => {
+    const take = getPreferredTake(takes, line.id);
+    const cue = scene.cues?.[line.id];
+    const reference = referenceAudio[line.id];
+    let duration: number;
+    let source: LineTiming['source'];
+    let takeOffset: number | undefined;
+    if (take) {
+      const span = takeSpan(take);
+      duration = span.end - span.start;
+      takeOffset = span.start;
+      source = 'take';
+    } else if (cue) {
+      duration = cue.end - cue.start;
+      source = 'cue';
+    } else if (reference) {
+      duration = referenceDuration(reference);
+      source = 'reference';
+    } else {
+      duration = estimateDuration(line.text, charsPerSecond);
+      source = 'estimate';
+    }
+
+    const start = cue ? cue.start : cursor;
+    const timing: LineTiming = { lineId: line.id, index, start, end: start + duration, source, takeId: take?.id, takeOffset };
+    cursor = timing.end + gap;
+    return timing;
+  });
+};
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { Scene } from '../types';
+import { ServiceError } from './errors';
+import { alignTranslation, estimateSyllables, restoreSourceScene } from './translation';
+
+const scene: Scene = {
+  id: 'scene-1',
+  title: 'The Last Train',
+  context: 'A rain-soaked platform.',
+  language: 'en',
+  dialogue: [
+    { id: 'a', character: 'MARA', text: 'That case is mine.', emotion: 'defiant' },
+    { id: 'b', character: 'JONAS', text: 'Funny.', emotion: 'amused' }
+  ]
+};
+
+describe('alignTranslation', () => {
+  it('matches lines by id and keeps characters, emotions and the source text', () => {
+    const translated = alignTranslation(scene, {
+      title: 'Der letzte Zug',
+      context: '',
+      lines: [{ id: 'b', text: ' Lustig. ' }, { id: 'a', text: 'Der Koffer gehört mir.' }]
+    }, 'de');
+
+    expect(translated.title).toBe('Der letzte Zug');
+    expect(translated.context).toBe(scene.context);
+    expect(translated.language).toBe('de');
+    expect(translated.sourceLanguage).toBe('en');
+    expect(translated.dialogue).toEqual([
+      { id: 'a', character: 'MARA', text: 'Der Koffer gehört mir.', emotion: 'defiant', sourceText: 'That case is mine.' },
+      { id: 'b', character: 'JONAS', text: 'Lustig.', emotion: 'amused', sourceText: 'Funny.' }
+    ]);
+  });
+
+  it('falls back to line order when the model changes the ids', () => {
+    const translated = alignTranslation(scene, {
+      title: '',
+      context: '',
+      lines: [{ id: '1', text: 'Ce bagage est à moi.' }, { id: '2', text: 'Drôle.' }]
+    }, 'fr');
+    expect(translated.dialogue.map(line => line.text)).toEqual(['Ce bagage est à moi.', 'Drôle.']);
+  });
+
+  it('keeps the original source text when translating a translation', () => {
+    const german = alignTranslation(scene, { title: '', context: '', lines: [{ id: 'a', text: 'Mein Koffer.' }, { id: 'b', text: 'Lustig.' }] }, 'de');
+    const french = alignTranslation(german, { title: '', context: '', lines: [{ id: 'a', text: 'Ma valise.' }, { id: 'b', text: 'Drôle.' }] }, 'fr');
+    expect(french.sourceLanguage).toBe('en');
+    expect(french.dialogue[0].sourceText).toBe('That case is mine.');
+    expect(restoreSourceScene(french)).toMatchObject({ language: 'en', sourceLanguage: undefined, dialogue: scene.dialogue });
+  });
+
+  it('rejects a wrong line count or an empty line as malformed output', () => {
+    const attempt = (lines: { id: string; text: string }[]) => () => alignTranslation(scene, { title: '', context: '', lines }, 'de');
+    expect(attempt([{ id: 'a', text: 'Mein Koffer.' }])).toThrow(ServiceError);
+    expect(attempt([{ id: 'a', text: 'Mein Koffer.' }, { id: 'b', text: '  ' }])).toThrow('Translation for line 2 is empty.');
+    try {
+      attempt([])();
+    } catch (err) {
+      expect((err as ServiceError).kind).toBe('malformedOutput');
+    }
+  });
+});
+
+describe('estimateSyllables', () => {
+  it('counts vowel groups, kana and akshara', () => {
+    expect(estimateSyllables('Beautiful day', 'en')).toBe(4);
+    expect(estimateSyllables('こんにちは', 'ja')).toBe(5);
+    expect(estimateSyllables('नमस्ते', 'hi')).toBe(3);
+  });
+});
@@ -0,0 +1,65 @@
+import { Scene, DialogueLine, SUPPORTED_LANGUAGES } from "../types";
+import { ServiceError } from "./errors";
+
+export interface TranslatedScript {
+  title: string;
+  context: string;
+  lines: { id: string; text: string }[];
+}
+
+export const languageName = (code: string): string =>
+  SUPPORTED_LANGUAGES.find(l => l.code === code)?.name || code;
+
+const CJK_SYLLABLE = /[぀-ヿ㐀-䶿一-鿿가-힯]/g;
+const DEVANAGARI_SYLLABLE = /[अ-औक-ह](?!्)/g;
+const VOWEL_GROUP = /[aeiouyàáâãäåæèéêëìíîïòóôõöøùúûüýÿœ]+/gi;
+
+/**
+ * Rough spoken-length estimate: one syllable per kana, hanzi or hangul block,
+ * per Devanagari akshara, and per vowel group in Latin-script languages.
+ */
+export const estimateSyllables = (text: string, language: string): number => {
+  if (language === 'ja' || language === 'zh' || language === 'ko') return (text.match(CJK_SYLLABLE) || []).length;
+  if (language === 'hi') return (text.match(DEVANAGARI_SYLLABLE) || []).length;
+  return (text.match(VOWEL_GROUP) || []).length;
+};
+
+export const syllableTarget = (line: DialogueLine, sourceLanguage: string) =>
+  Math.max(1, estimateSyllables(line.text, sourceLanguage));
+
+// Ratio of translated to source syllables; lines far from 1 are hard to dub over picture.
+export const lengthRatio = (line: DialogueLine, language: string, sourceLanguage: string): number | null =>
+  line.sourceText === undefined ? null : estimateSyllables(line.text, language) / Math.max(1, estimateSyllables(line.sourceText, sourceLanguage));
+
+/**
+ * Merges a model translation back into the scene. Characters, emotions and line
+ * ids always come from the original so takes, casting and timing stay aligned.
+ */
+export const alignTranslation = (scene: Scene, translated: TranslatedScript, targetLanguage: string): Scene => {
+  if (!Array.isArray(translated.lines) || translated.lines.length !== scene.dialogue.length) {
+    throw new ServiceError('malformedOutput', `Translation returned ${translated.lines?.length ?? 0} lines for a ${scene.dialogue.length}-line scene.`);
+  }
+  const byId = new Map(translated.lines.map(l => [l.id, l.text]));
+  const dialogue = scene.dialogue.map((line, index) => {
+    const text = byId.get(line.id) ?? translated.lines[index].text;
+    if (!text?.trim()) throw new ServiceError('malformedOutput', `Translation for line ${index + 1} is empty.`);
+    return { ...line, text: text.trim(), sourceText: line.sourceText ?? line.text };
+  });
+
+  return {
+    ...scene,
+    title: translated.title || scene.title,
+    context: translated.context || scene.context,
+    dialogue,
+    language: targetLanguage,
+    sourceLanguage: scene.sourceLanguage ?? scene.language
+  };
+};
+
+// Back to the original-language script, e.g. when "translating" to the source language.
+export const restoreSourceScene = (scene: Scene): Scene => ({
+  ...scene,
+  dialogue: scene.dialogue.map(({ sourceText, ...line }) => ({ ...line, text: sourceText ?? line.text })),
+  language: scene.sourceLanguage ?? scene.language,
+  sourceLanguage: undefined
+});
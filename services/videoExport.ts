@@ -0,0 +1,143 @@
+
+import { firstSupportedType, baseMimeType } from "./audioInput";
+import { ServiceError, toServiceError } from "./errors";
+
+/**
+ * Muxes the dub into a local video file. The picture (scene video, looped
+ * if shorter than the dub, or the concept image as a still) is drawn to a
+ * canvas; the mix plays into a MediaStreamDestination; MediaRecorder encodes
+ * both. Capture runs in real time, so an export takes as long as the dub.
+ */
+
+export const VIDEO_MIME_TYPES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+  'video/mp4;codecs=avc1,mp4a',
+  'video/mp4'
+];
+
+const FRAME_RATE = 30;
+const MAX_WIDTH = 1280;
+const STILL_SIZE = { width: 1280, height: 720 };
+const VIDEO_BITS_PER_SECOND = 5_000_000;
+
+export type VideoPicture = { kind: 'video'; blob: Blob } | { kind: 'image'; url: string };
+
+export interface VideoExportRequest {
+  mix: AudioBuffer;
+  picture: VideoPicture;
+  signal: AbortSignal;
+  // Fraction of the dub captured so far, 0..1.
+  onProgress?: (fraction: number) => void;
+}
+
+export const videoFileExtension = (mimeType: string) => baseMimeType(mimeType) === 'video/mp4' ? 'mp4' : 'webm';
+
+/**
+ * Remote renders are fetched into a Blob first: drawing a cross-origin video
+ * would taint the canvas and stop it being captured.
+ */
+export const fetchVideo = async (url: string): Promise<Blob> => {
+  const response = await fetch(url).catch(err => { throw toServiceError(err); });
+  if (!response.ok) {
+    // Render links expire, so a 4xx here usually means the video needs rendering again.
+    throw new ServiceError(response.status >= 500 ? 'network' : 'unknown', `The scene video couldn't be downloaded (HTTP ${response.status}).`);
+  }
+  return response.blob();
+};
+
+const loadPicture = async (picture: VideoPicture): Promise<{ element: HTMLVideoElement | HTMLImageElement; width: number; height: number; release: () => void }> => {
+  if (picture.kind === 'image') {
+    const image = new Image();
+    image.src = picture.url;
+    await image.decode();
+    return { element: image, width: image.naturalWidth || STILL_SIZE.width, height: image.naturalHeight || STILL_SIZE.height, release: () => {} };
+  }
+  const url = URL.createObjectURL(picture.blob);
+  const video = document.createElement('video');
+  video.src = url;
+  video.muted = true;
+  video.loop = true;
+  video.playsInline = true;
+  await new Promise<void>((resolve, reject) => {
+    video.onloadeddata = () => resolve();
+    video.onerror = () => reject(new Error("The scene video could not be decoded."));
+  });
+  return {
+    element: video,
+    width: video.videoWidth,
+    height: video.videoHeight,
+    release: () => {
+      video.pause();
+      URL.revokeObjectURL(url);
+    }
+  };
+};
+
+// Resolves with the encoded file, or rejects with an AbortError if cancelled.
+export const exportDubbedVideo = async ({ mix, picture, signal, onProgress }: VideoExportRequest): Promise<Blob> => {
+  const { element, width, height, release } = await loadPicture(picture);
+  const scale = Math.min(1, MAX_WIDTH / width);
+  const canvas = document.createElement('canvas');
+  // Encoders want even dimensions.
+  canvas.width = Math.round((width * scale) / 2) * 2;
+  canvas.height = Math.round((height * scale) / 2) * 2;
+  const ctx2d = canvas.getContext('2d')!;
+
+  const audioContext = new AudioContext();
+  const destination = audioContext.createMediaStreamDestination();
+  const source = audioContext.createBufferSource();
+  source.buffer = mix;
+  source.connect(destination);
+
+  const stream = new MediaStream([...canvas.captureStream(FRAME_RATE).getVideoTracks(), ...destination.stream.getAudioTracks()]);
+  const mimeType = firstSupportedType(VIDEO_MIME_TYPES);
+  const recorder = new MediaRecorder(stream, { ...(mimeType ? { mimeType } : {}), videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+
+  let frame = 0;
+  const draw = () => {
+    ctx2d.drawImage(element, 0, 0, canvas.width, canvas.height);
+    onProgress?.(Math.min(1, audioContext.currentTime / mix.duration));
+    frame = requestAnimationFrame(draw);
+  };
+
+  try {
+    // Contexts start suspended when created outside a user gesture.
+    await audioContext.resume();
+    return await new Promise<Blob>((resolve, reject) => {
+      const abort = () => {
+        recorder.onstop = null;
+        if (recorder.state !== 'inactive') recorder.stop();
+        reject(new DOMException("Video export cancelled.", 'AbortError'));
+      };
+      if (signal.aborted) return abort();
+      signal.addEventListener('abort', abort, { once: true });
+
+      recorder.onstop = () => {
+        signal.removeEventListener('abort', abort);
+        resolve(new Blob(chunks, { type: recorder.mimeType || mimeType || 'video/webm' }));
+      };
+      source.onended = () => {
+        if (recorder.state !== 'inactive') recorder.stop();
+      };
+
+      draw();
+      recorder.start();
+      if (element instanceof HTMLVideoElement) {
+        element.currentTime = 0;
+        element.play().catch(reject);
+      }
+      source.start();
+    });
+  } finally {
+    cancelAnimationFrame(frame);
+    source.onended = null;
+    try { source.stop(); } catch { /* never started or already ended */ }
+    stream.getTracks().forEach(track => track.stop());
+    audioContext.close();
+    release();
+  }
+};
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { pcmToWav, wavToPcm16 } from './wav';
+
+describe('wav', () => {
+  it('reads back the PCM it writes', () => {
+    const pcm = new Uint8Array([1, 2, 3, 4]);
+    const wav = pcmToWav(pcm, 24000);
+    expect(wav).toHaveLength(48);
+    expect(wavToPcm16(wav)).toEqual({ pcm, sampleRate: 24000, channels: 1 });
+  });
+
+  it('pads an odd-length data chunk to a word boundary', () => {
+    const wav = pcmToWav(new Uint8Array([1, 2, 3]), 24000);
+    const view = new DataView(wav.buffer);
+    expect(wav).toHaveLength(48);
+    expect(wav[47]).toBe(0);
+    expect(view.getUint32(4, true)).toBe(wav.length - 8);
+    expect(view.getUint32(40, true)).toBe(3);
+  });
+});
@@ -0,0 +1,88 @@
+
+/**
+ * RIFF/WAVE helpers. Reference audio is kept as raw little-endian 16-bit PCM,
+ * so these only add or strip the 44-byte canonical header. Mixdowns can also
+ * be written as 24-bit PCM.
+ */
+
+export type WavBitDepth = 16 | 24;
+
+export const pcmToWav = (pcm: Uint8Array, sampleRate: number, channels: number = 1, bitsPerSample: WavBitDepth = 16): Uint8Array => {
+  const bytesPerSample = bitsPerSample / 8;
+  // RIFF chunks are word-aligned: an odd-length data chunk is followed by a
+  // zero pad byte that counts toward the RIFF size but not the data size.
+  const pad = pcm.length % 2;
+  const header = new DataView(new ArrayBuffer(44));
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < 4; i++) header.setUint8(offset + i, tag.charCodeAt(i));
+  };
+  writeTag(0, 'RIFF');
+  header.setUint32(4, 36 + pcm.length + pad, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true);
+  header.setUint16(22, channels, true);
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * channels * bytesPerSample, true);
+  header.setUint16(32, channels * bytesPerSample, true);
+  header.setUint16(34, bitsPerSample, true);
+  writeTag(36, 'data');
+  header.setUint32(40, pcm.length, true);
+
+  const wav = new Uint8Array(44 + pcm.length + pad);
+  wav.set(new Uint8Array(header.buffer), 0);
+  wav.set(pcm, 44);
+  return wav;
+};
+
+export const pcm16ToWav = (pcm: Uint8Array, sampleRate: number, channels: number = 1): Uint8Array =>
+  pcmToWav(pcm, sampleRate, channels, 16);
+
+// Clamps float samples in [-1, 1] to little-endian 16-bit PCM.
+export const floatToPcm16 = (samples: Float32Array): Uint8Array => {
+  const view = new DataView(new ArrayBuffer(samples.length * 2));
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+  return new Uint8Array(view.buffer);
+};
+
+// Clamps float samples in [-1, 1] to little-endian 24-bit PCM.
+export const floatToPcm24 = (samples: Float32Array): Uint8Array => {
+  const pcm = new Uint8Array(samples.length * 3);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    const value = Math.round(sample < 0 ? sample * 0x800000 : sample * 0x7fffff);
+    pcm[i * 3] = value & 0xff;
+    pcm[i * 3 + 1] = (value >> 8) & 0xff;
+    pcm[i * 3 + 2] = (value >> 16) & 0xff;
+  }
+  return pcm;
+};
+
+export const wavToPcm16 = (wav: Uint8Array): { pcm: Uint8Array; sampleRate: number; channels: number } => {
+  const view = new DataView(wav.buffer, wav.byteOffset, wav.byteLength);
+  const tag = (offset: number) => String.fromCharCode(...wav.subarray(offset, offset + 4));
+  if (tag(0) !== 'RIFF' || tag(8) !== 'WAVE') throw new Error("Not a WAV file.");
+
+  let sampleRate = 0;
+  let channels = 0;
+  let offset = 12;
+  while (offset + 8 <= wav.length) {
+    const chunkId = tag(offset);
+    const size = view.getUint32(offset + 4, true);
+    if (chunkId === 'fmt ') {
+      if (view.getUint16(offset + 8, true) !== 1 || view.getUint16(offset + 22, true) !== 16) {
+        throw new Error("Only 16-bit PCM WAV files are supported.");
+      }
+      channels = view.getUint16(offset + 10, true);
+      sampleRate = view.getUint32(offset + 12, true);
+    } else if (chunkId === 'data') {
+      return { pcm: wav.slice(offset + 8, offset + 8 + size), sampleRate, channels };
+    }
+    offset += 8 + size + (size % 2);
+  }
+  throw new Error("WAV file has no data chunk.");
+};
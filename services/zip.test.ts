@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { createZip, readZip } from './zip';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+describe('zip', () => {
+  it('reads back what it writes', async () => {
+    const binary = new Uint8Array(256).map((_, i) => i);
+    const files = await readZip(createZip([
+      { name: 'manifest.json', data: encode('{"format":"test"}') },
+      { name: 'audio/täke 1.webm', data: binary },
+      { name: 'empty.txt', data: new Uint8Array() }
+    ]));
+    expect([...files.keys()]).toEqual(['manifest.json', 'audio/täke 1.webm', 'empty.txt']);
+    expect(new TextDecoder().decode(files.get('manifest.json'))).toBe('{"format":"test"}');
+    expect(files.get('audio/täke 1.webm')).toEqual(binary);
+    expect(files.get('empty.txt')).toHaveLength(0);
+  });
+
+  it('rejects files that are not archives', async () => {
+    await expect(readZip(new Blob(['not a zip at all, just some text']))).rejects.toThrow('File is not a valid ZIP archive.');
+  });
+});
@@ -1,8 +1,26 @@
-
 export interface DialogueLine {
+  id: string;
   character: string;
   text: string;
   emotion: string;
+  // Original-language text when the scene has been translated.
+  sourceText?: string;
+}
+
+// The parts of a line an actor performs; see DubbingPerformance.script.
+export type LineScript = Pick<DialogueLine, 'character' | 'text' | 'emotion'>;
+
+// A fixed time window for a line, in seconds, e.g. from an imported subtitle cue.
+export interface CueTiming {
+  start: number;
+  end: number;
+}
+
+// Per-line mixdown adjustments.
+export interface LineMix {
+  gainDb: number;
+  // Seconds added to the line's timeline position; negative pulls it earlier.
+  offset: number;
 }
 
 export interface Scene {
@@ -14,16 +32,147 @@ export interface Scene {
   imageUrl?: string;
   videoUrl?: string;
   syncedVideoUrl?: string;
+  // Imported cue windows keyed by DialogueLine id.
+  cues?: Record<string, CueTiming>;
+  // Language the script was translated from; see DialogueLine.sourceText.
+  sourceLanguage?: string;
+  // Prebuilt TTS voice name per DialogueLine.character.
+  casting?: Record<string, string>;
+  // Mixdown gain and offset nudges keyed by DialogueLine id.
+  mix?: Record<string, LineMix>;
+}
+
+export type FeedbackCategory = 'timing' | 'scriptAccuracy' | 'emotionalDelivery' | 'pronunciation';
+
+export interface FeedbackScore {
+  // 1 (poor) to 10 (broadcast ready).
+  score: number;
+  rationale: string;
+}
+
+export interface DirectorFeedback {
+  // Missing on feedback migrated from the old free-text format.
+  scores?: Record<FeedbackCategory, FeedbackScore>;
+  // One concrete, actionable note for the line that was dubbed.
+  lineNote: string;
+  summary: string;
+}
+
+// How a prompted take lines up with the teleprompter window for its line.
+export interface PrompterTiming {
+  // Seconds into the take audio at which the line was cued in. Slightly
+  // negative when the cue preceded the recorder's first captured sample.
+  windowStart: number;
+  windowDuration: number;
+  windowSource: TimingSource;
+  countdown: number;
+  autoStopped: boolean;
+}
+
+export type NormalizeMode = 'none' | 'peak' | 'loudness';
+
+// Edits applied to a take's source audio to produce an edited version.
+export interface TakeEdit {
+  // Seconds into the source take.
+  trimStart: number;
+  trimEnd: number;
+  normalize: NormalizeMode;
+  // Noise gate threshold in dBFS, or null for no gate.
+  gateDb: number | null;
+}
+
+// A stretch of detected speech, in seconds.
+export interface SpeechSegment {
+  start: number;
+  end: number;
+}
+
+export type SyncTargetSource = 'cue' | 'reference' | 'estimate';
+
+// Local voice-activity timing of a take against its line's target.
+export interface SyncAnalysis {
+  // Speech found in the take, in seconds into the take audio.
+  segments: SpeechSegment[];
+  pauses: SpeechSegment[];
+  speechStart: number;
+  speechEnd: number;
+  // Point in the take that lines up with the start of the target.
+  anchor: number;
+  targetSource: SyncTargetSource;
+  targetDuration: number;
+  // Speech within the target, in seconds from its start.
+  targetSegments: SpeechSegment[];
+  // Seconds the speech started after (positive) or before the target's, or
+  // null for unprompted takes, which have no cue-in point to measure from.
+  startOffset: number | null;
+  // Seconds the speech ran past the end of the target's; negative when short.
+  overrun: number;
+  // Target speech length over take speech length; above 1 the take is faster.
+  rateRatio: number;
+}
+
+// Pitch and energy of one read, sampled at evenly spaced points across its speech.
+export interface PitchContour {
+  // Semitones from the speaker's median pitch; null where unvoiced.
+  pitch: (number | null)[];
+  // dB below the loudest point.
+  energy: number[];
+}
+
+// A take's intonation against the reference read of the same line.
+export interface PitchComparison {
+  reference: PitchContour;
+  take: PitchContour;
+  // 0-100 match of the pitch movement, or null when too little was voiced to compare.
+  intonation: number | null;
+  // 0-100 match of where the energy peaks fall.
+  emphasis: number;
+  // Take pitch range over the reference's; below 1 is flatter.
+  rangeRatio: number | null;
 }
 
 export interface DubbingPerformance {
+  id: string;
+  lineId: string;
+  takeNumber: number;
   audioBlob: Blob;
   duration: number;
   timestamp: number;
   transcription?: string;
+  feedback?: DirectorFeedback;
+  circled?: boolean;
+  // Set for takes recorded in teleprompter mode.
+  prompter?: PrompterTiming;
+  // Set on edited versions: the take they were rendered from, and how.
+  editedFrom?: string;
+  edit?: TakeEdit;
+  // Set once the take's audio has been analysed locally.
+  sync?: SyncAnalysis;
+  // Set when the take could be compared with a reference read.
+  pitch?: PitchComparison;
+  // The line as written when the take was recorded. Takes from before script
+  // editing have none until their line is first edited.
+  script?: LineScript;
+}
+
+export type TimingSource = 'take' | 'cue' | 'reference' | 'estimate';
+
+// Where a line sits on the scene timeline, in seconds from the scene start.
+export interface LineTiming {
+  lineId: string;
+  index: number;
+  start: number;
+  end: number;
+  source: TimingSource;
+  takeId?: string;
+  // Seconds into the take's audio at which `start` falls; the count-in before it is not timed.
+  takeOffset?: number;
 }
 
-export type AppState = 'IDLE' | 'CREATING' | 'READY' | 'RECORDING' | 'ANALYZING' | 'SYNCING' | 'KEY_CHECK';
+// Sample rate of the 16-bit mono PCM returned by the TTS model.
+export const REFERENCE_SAMPLE_RATE = 24000;
+
+export type AppState = 'IDLE' | 'CREATING' | 'READY' | 'RECORDING' | 'ANALYZING' | 'KEY_CHECK';
 
 export const SUPPORTED_LANGUAGES = [
   { code: 'en', name: 'English' },
@@ -35,3 +184,25 @@ export const SUPPORTED_LANGUAGES = [
   { code: 'zh', name: 'Chinese' },
   { code: 'hi', name: 'Hindi' }
 ];
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  scene: Scene;
+  takes: DubbingPerformance[];
+  // Raw 24 kHz PCM from generateReferenceAudio, keyed by DialogueLine id.
+  referenceAudio: Record<string, Uint8Array>;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  title: string;
+  language: string;
+  lineCount: number;
+  takeCount: number;
+  createdAt: number;
+  updatedAt: number;
+}